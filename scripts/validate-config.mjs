@@ -0,0 +1,44 @@
+// Dry-run validation for CI: pnpm validate:config [config.json ...]
+// Without arguments the BACKENDS_CONFIG environment variable is checked.
+import { readFile } from 'node:fs/promises';
+import { ConfigLoader } from '../src/config/backends.ts';
+
+const env = { ENVIRONMENT: 'production', ...process.env };
+
+const sources = process.argv.slice(2).map(file => ({ name: file, read: () => readFile(file, 'utf8') }));
+if (sources.length === 0) {
+  if (!env.BACKENDS_CONFIG) {
+    console.error('Usage: validate-config <config.json ...> (or set BACKENDS_CONFIG)');
+    process.exit(2);
+  }
+  sources.push({ name: 'BACKENDS_CONFIG', read: async () => env.BACKENDS_CONFIG });
+}
+
+let failed = false;
+
+for (const source of sources) {
+  try {
+    let document;
+    try {
+      document = JSON.parse(await source.read());
+    } catch (error) {
+      throw new Error(`not valid JSON: ${error.message}`);
+    }
+
+    ConfigLoader.validateConfig(ConfigLoader.fromDocument(document, env));
+    console.log(`${source.name}: valid`);
+  } catch (error) {
+    failed = true;
+    // Matched by shape: tsx may load the validator module more than once
+    if (Array.isArray(error.issues)) {
+      console.error(`${source.name}: ${error.issues.length} problem(s)`);
+      for (const issue of error.issues) {
+        console.error(`  ${issue.path}: ${issue.message}`);
+      }
+    } else {
+      console.error(`${source.name}: ${error.message}`);
+    }
+  }
+}
+
+process.exit(failed ? 1 : 0);
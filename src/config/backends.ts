@@ -1,4 +1,5 @@
 import type { ProxyConfig, BackendConfig, Env } from '../types';
+import { assertValidConfig } from './validator';
 
 const DEFAULT_CONFIG: ProxyConfig = {
   backends: [
@@ -13,6 +14,7 @@ const DEFAULT_CONFIG: ProxyConfig = {
   cacheMaxAge: 300,
   healthCheckInterval: 30000,
   circuitBreakerThreshold: 5,
+  streamIdleTimeout: 60000,
 };
 
 export class ConfigLoader {
@@ -27,10 +29,12 @@ export class ConfigLoader {
         return this.buildConfigFromBackends(backends, env);
       }
 
-      console.warn('No backend configuration found, using default fallback');
-      return DEFAULT_CONFIG;
+      throw new Error('No backend configuration found: set BACKENDS_CONFIG or BACKEND_n_URL');
 
     } catch (error) {
+      if (this.failMode(env) === 'closed') {
+        throw error;
+      }
       console.error('Config loading error:', error);
       console.warn('Falling back to default configuration');
       return DEFAULT_CONFIG;
@@ -38,31 +42,63 @@ export class ConfigLoader {
   }
 
   private static loadFromJSON(configJson: string, env: Env): ProxyConfig {
-    const config = JSON.parse(configJson) as Partial<ProxyConfig>;
-
-    if (!config.backends || config.backends.length === 0) {
-      throw new Error('No backends defined in BACKENDS_CONFIG');
+    let document: Partial<ProxyConfig>;
+    try {
+      document = JSON.parse(configJson);
+    } catch (error) {
+      throw new Error(`BACKENDS_CONFIG is not valid JSON: ${(error as Error).message}`);
     }
+    return this.fromDocument(document, env);
+  }
+
+  // A JSON config document as stored in BACKENDS_CONFIG or the config KV namespace
+  static fromDocument(config: Partial<ProxyConfig>, env: Env): ProxyConfig {
+    assertValidConfig(config);
 
     return {
-      backends: config.backends,
-      retryAttempts: config.retryAttempts || this.parseNumber(env.RETRY_ATTEMPTS, 2),
+      backends: config.backends!,
+      loadBalancing: config.loadBalancing,
+      geo: config.geo,
+      pools: config.pools,
+      routes: config.routes,
+      retry: config.retry,
+      cache: config.cache,
+      retryBudget: config.retryBudget,
+      hedging: config.hedging,
+      release: config.release,
+      errors: config.errors,
+      filter: config.filter,
+      requestTimeout: config.requestTimeout,
+      deadlineHeader: config.deadlineHeader,
+      rateLimits: config.rateLimits,
+      auth: config.auth,
+      cors: config.cors,
+      transform: config.transform,
+      exposeBackendHeaders: config.exposeBackendHeaders,
+      retryAttempts: config.retryAttempts ?? this.parseNumber(env.RETRY_ATTEMPTS, 2),
       enableCaching: config.enableCaching ?? this.parseBoolean(env.ENABLE_CACHING, true),
-      cacheMaxAge: config.cacheMaxAge || this.parseNumber(env.CACHE_MAX_AGE, 300),
-      healthCheckInterval: config.healthCheckInterval || this.parseNumber(env.HEALTH_CHECK_INTERVAL, 30000),
-      circuitBreakerThreshold: config.circuitBreakerThreshold || this.parseNumber(env.CIRCUIT_BREAKER_THRESHOLD, 5),
+      cacheMaxAge: config.cacheMaxAge ?? this.parseNumber(env.CACHE_MAX_AGE, 300),
+      healthCheckInterval: config.healthCheckInterval ?? this.parseNumber(env.HEALTH_CHECK_INTERVAL, 30000),
+      circuitBreakerThreshold: config.circuitBreakerThreshold ?? this.parseNumber(env.CIRCUIT_BREAKER_THRESHOLD, 5),
+      streamIdleTimeout: config.streamIdleTimeout ?? this.parseNumber(env.STREAM_IDLE_TIMEOUT, 60000),
     };
   }
 
   private static loadFromEnvVariables(env: Env): BackendConfig[] {
     const backends: BackendConfig[] = [];
+    const vars = env as unknown as Record<string, string | undefined>;
+    const indexes = Object.keys(env)
+      .map(key => key.match(/^BACKEND_(\d+)_URL$/)?.[1])
+      .filter((index): index is string => index !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
 
-    for (let i = 1; i <= 5; i++) {
-      const url = env[`BACKEND_${i}_URL` as keyof Env] as string;
+    for (const i of indexes) {
+      const url = vars[`BACKEND_${i}_URL`];
 
       if (url) {
-        const region = env[`BACKEND_${i}_REGION` as keyof Env] as string || 'unknown';
-        const weight = this.parseNumber(env[`BACKEND_${i}_WEIGHT` as keyof Env] as string, 1);
+        const region = vars[`BACKEND_${i}_REGION`] || 'unknown';
+        const weight = this.parseNumber(vars[`BACKEND_${i}_WEIGHT`], 1);
 
         backends.push({
           url: url.trim(),
@@ -83,6 +119,7 @@ export class ConfigLoader {
       cacheMaxAge: this.parseNumber(env.CACHE_MAX_AGE, 300),
       healthCheckInterval: this.parseNumber(env.HEALTH_CHECK_INTERVAL, 30000),
       circuitBreakerThreshold: this.parseNumber(env.CIRCUIT_BREAKER_THRESHOLD, 5),
+      streamIdleTimeout: this.parseNumber(env.STREAM_IDLE_TIMEOUT, 60000),
     };
   }
 
@@ -97,21 +134,38 @@ export class ConfigLoader {
     return value.toLowerCase() === 'true';
   }
 
-  static validateConfig(config: ProxyConfig): void {
-    if (!config.backends || config.backends.length === 0) {
-      throw new Error('At least one backend must be configured');
-    }
+  // Every backend across the default list and all pools, de-duplicated by URL
+  static allBackends(config: ProxyConfig): BackendConfig[] {
+    const backends = new Map<string, BackendConfig>();
 
     for (const backend of config.backends) {
-      if (!backend.url) {
-        throw new Error('Backend URL is required');
-      }
-      if (!backend.region) {
-        throw new Error('Backend region is required');
-      }
-      if (backend.weight <= 0) {
-        throw new Error('Backend weight must be greater than 0');
+      backends.set(backend.url, backend);
+    }
+    for (const pool of Object.values(config.pools || {})) {
+      for (const backend of pool.backends) {
+        if (!backends.has(backend.url)) {
+          backends.set(backend.url, backend);
+        }
       }
     }
+
+    return [...backends.values()];
+  }
+
+  static findBackend(config: ProxyConfig, url: string): BackendConfig | undefined {
+    return this.allBackends(config).find(backend => backend.url === url);
+  }
+
+  // Reports every problem with its path rather than stopping at the first
+  static validateConfig(config: ProxyConfig): void {
+    assertValidConfig(config);
+  }
+
+  // `closed` refuses to serve with a broken config; `open` keeps the old fallback to DEFAULT_CONFIG
+  static failMode(env: Env): 'open' | 'closed' {
+    if (env.CONFIG_FAIL_MODE === 'open' || env.CONFIG_FAIL_MODE === 'closed') {
+      return env.CONFIG_FAIL_MODE;
+    }
+    return env.ENVIRONMENT === 'development' ? 'open' : 'closed';
   }
 }
@@ -0,0 +1,187 @@
+import type { ConfigPointer, ConfigVersion, Env, LoadedConfig, ProxyConfig } from '../types';
+import { ConfigLoader } from './backends';
+
+const CONFIG_TTL = 30000;
+const CURRENT_KEY = 'config:current';
+const VERSION_PREFIX = 'config:version:';
+const DRAINED_KEY = 'config:drained';
+
+// Per-isolate cache; it also serves as the last known good config when KV or a document is bad
+let cached: LoadedConfig | null = null;
+
+const versionKey = (version: number): string => `${VERSION_PREFIX}${String(version).padStart(10, '0')}`;
+
+// Versioned config documents in KV, falling back to BACKENDS_CONFIG / BACKEND_n_* when none is published
+export class ConfigStore {
+  constructor(private env: Env) {}
+
+  static async load(env: Env): Promise<ProxyConfig> {
+    return (await new ConfigStore(env).current()).config;
+  }
+
+  // Not async: the refresh promise goes straight to the caller's await, so a config error is
+  // handled there instead of passing through an extra wrapper promise first
+  current(): Promise<LoadedConfig> {
+    if (cached && Date.now() - cached.loadedAt < CONFIG_TTL) {
+      return Promise.resolve(cached);
+    }
+    return this.refresh();
+  }
+
+  async refresh(): Promise<LoadedConfig> {
+    const kv = this.env.CONFIG_KV;
+    if (!kv) {
+      return this.fromEnv();
+    }
+
+    try {
+      const [pointer, drained] = await Promise.all([
+        kv.get<ConfigPointer>(CURRENT_KEY, 'json'),
+        kv.get<string[]>(DRAINED_KEY, 'json')
+      ]);
+      if (!pointer) {
+        return this.fromEnv(drained ?? []);
+      }
+
+      const document = await kv.get<ConfigVersion>(versionKey(pointer.version), 'json');
+      if (!document) {
+        throw new Error(`Config version ${pointer.version} is missing`);
+      }
+
+      const config = this.build(document.config, drained ?? []);
+      cached = { config, source: 'kv', version: document.version, loadedAt: Date.now() };
+      return cached;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Config load from KV failed:', error);
+
+      // Keep serving with the last good config and try again after the TTL
+      if (cached) {
+        cached = { ...cached, source: 'last-known-good', loadedAt: Date.now(), error: message };
+        return cached;
+      }
+      return this.fromEnv();
+    }
+  }
+
+  async getVersion(version: number): Promise<ConfigVersion | null> {
+    return this.requireKV().get<ConfigVersion>(versionKey(version), 'json');
+  }
+
+  async listVersions(): Promise<ConfigVersion[]> {
+    const kv = this.requireKV();
+    const versions: ConfigVersion[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await kv.list({ prefix: VERSION_PREFIX, cursor });
+      const documents = await Promise.all(page.keys.map(key => kv.get<ConfigVersion>(key.name, 'json')));
+      versions.push(...documents.filter((document): document is ConfigVersion => !!document));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return versions.sort((a, b) => b.version - a.version);
+  }
+
+  // Validates, stores a new version and makes it current; throws on an invalid document
+  async publish(document: Partial<ProxyConfig>, comment?: string): Promise<ConfigVersion> {
+    const kv = this.requireKV();
+    this.build(document, []);
+
+    const version: ConfigVersion = {
+      version: await this.nextVersion(),
+      createdAt: new Date().toISOString(),
+      comment,
+      config: document
+    };
+
+    await kv.put(versionKey(version.version), JSON.stringify(version));
+    await kv.put(CURRENT_KEY, JSON.stringify({ version: version.version, updatedAt: version.createdAt }));
+    cached = null;
+    return version;
+  }
+
+  // Rolling back publishes a copy of the old version, so history only ever grows
+  async rollback(version: number): Promise<ConfigVersion> {
+    const target = await this.getVersion(version);
+    if (!target) {
+      throw new Error(`Config version ${version} does not exist`);
+    }
+    return this.publish(target.config, `Rollback to version ${version}`);
+  }
+
+  // KV listings lag behind recent writes and KV has no conditional put, so the current pointer is
+  // taken into account and numbers whose key already exists are skipped rather than overwritten
+  private async nextVersion(): Promise<number> {
+    const kv = this.requireKV();
+    const pointer = await kv.get<ConfigPointer>(CURRENT_KEY, 'json');
+    let version = Math.max(await this.latestVersion(), pointer?.version ?? 0) + 1;
+
+    while (await kv.get(versionKey(version)) !== null) {
+      version++;
+    }
+    return version;
+  }
+
+  // Reads key names only, so publishing doesn't fetch every stored document
+  private async latestVersion(): Promise<number> {
+    const kv = this.requireKV();
+    let latest = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await kv.list({ prefix: VERSION_PREFIX, cursor });
+      for (const key of page.keys) {
+        latest = Math.max(latest, parseInt(key.name.slice(VERSION_PREFIX.length), 10) || 0);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return latest;
+  }
+
+  async getDrained(): Promise<string[]> {
+    return (await this.requireKV().get<string[]>(DRAINED_KEY, 'json')) ?? [];
+  }
+
+  // Drained backends stay configured and health checked but receive no new requests
+  async setDrained(url: string, drained: boolean): Promise<string[]> {
+    const kv = this.requireKV();
+    const current = new Set(await this.getDrained());
+    if (drained) {
+      current.add(url);
+    } else {
+      current.delete(url);
+    }
+
+    const list = [...current].sort();
+    await kv.put(DRAINED_KEY, JSON.stringify(list));
+    cached = null;
+    return list;
+  }
+
+  static reset(): void {
+    cached = null;
+  }
+
+  private build(document: Partial<ProxyConfig>, drained: string[]): ProxyConfig {
+    const config = ConfigLoader.fromDocument(document, this.env);
+    ConfigLoader.validateConfig(config);
+    return { ...config, drained };
+  }
+
+  // An invalid environment config throws, so the request fails closed unless CONFIG_FAIL_MODE=open
+  private fromEnv(drained: string[] = []): LoadedConfig {
+    const config = ConfigLoader.loadConfig(this.env);
+    ConfigLoader.validateConfig(config);
+    cached = { config: { ...config, drained }, source: 'env', loadedAt: Date.now() };
+    return cached;
+  }
+
+  private requireKV(): KVNamespace {
+    if (!this.env.CONFIG_KV) {
+      throw new Error('CONFIG_KV namespace is not bound');
+    }
+    return this.env.CONFIG_KV;
+  }
+}
@@ -0,0 +1,173 @@
+import type { ConfigIssue } from '../types';
+
+export type Schema =
+  | { type: 'string'; enum?: readonly string[]; nonEmpty?: boolean; format?: 'regex' | 'path' | 'https-url' }
+  | { type: 'number'; min?: number; above?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'literal'; value: string | number | boolean }
+  | { type: 'array'; items: Schema; minItems?: number }
+  | { type: 'object'; properties: Record<string, Schema>; required?: readonly string[] }
+  | { type: 'record'; values: Schema }
+  | { type: 'union'; options: Schema[] }
+  | { type: 'any' };
+
+export const str = (options: Omit<Extract<Schema, { type: 'string' }>, 'type'> = {}): Schema => ({ type: 'string', ...options });
+export const num = (options: Omit<Extract<Schema, { type: 'number' }>, 'type'> = {}): Schema => ({ type: 'number', ...options });
+export const bool = (): Schema => ({ type: 'boolean' });
+export const literal = (value: string | number | boolean): Schema => ({ type: 'literal', value });
+export const arr = (items: Schema, minItems?: number): Schema => ({ type: 'array', items, minItems });
+export const obj = (properties: Record<string, Schema>, required: readonly string[] = []): Schema => {
+  return { type: 'object', properties, required };
+};
+export const record = (values: Schema): Schema => ({ type: 'record', values });
+export const oneOf = (...options: Schema[]): Schema => ({ type: 'union', options });
+export const any = (): Schema => ({ type: 'any' });
+
+// `backends[0].url`, `pools.api.backends[1]`; the document itself is `(root)`
+export const joinPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+  return path ? `${path}.${segment}` : segment;
+};
+
+const describe = (schema: Schema): string => {
+  switch (schema.type) {
+    case 'literal': return JSON.stringify(schema.value);
+    case 'record': return 'an object';
+    case 'union': return schema.options.map(describe).join(' or ');
+    case 'object': return 'an object';
+    case 'array': return 'an array';
+    default: return `a ${schema.type}`;
+  }
+};
+
+const kindOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+// Walks `value` and records every type, range and unknown-key problem instead of stopping at the first
+export const checkSchema = (value: unknown, schema: Schema, path: string, issues: ConfigIssue[]): void => {
+  const report = (message: string) => issues.push({ path: path || '(root)', message });
+
+  switch (schema.type) {
+    case 'any':
+      return;
+
+    case 'literal':
+      if (value !== schema.value) report(`must be ${JSON.stringify(schema.value)}`);
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') report(`must be a boolean, got ${kindOf(value)}`);
+      return;
+
+    case 'string': {
+      if (typeof value !== 'string') {
+        report(`must be a string, got ${kindOf(value)}`);
+        return;
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        report(`must be one of ${schema.enum.join(', ')}, got "${value}"`);
+      }
+      if (schema.nonEmpty && value.trim() === '') {
+        report('must not be empty');
+      }
+      if (schema.format === 'path' && !value.startsWith('/')) {
+        report('must start with "/"');
+      }
+      if (schema.format === 'https-url' && !/^https:\/\/[^/]+/.test(value)) {
+        report('must be an https URL');
+      }
+      if (schema.format === 'regex') {
+        try {
+          new RegExp(value);
+        } catch (error) {
+          report(`is not a valid regular expression: ${(error as Error).message}`);
+        }
+      }
+      return;
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        report(`must be a number, got ${kindOf(value)}`);
+        return;
+      }
+      if (schema.integer && !Number.isInteger(value)) report('must be an integer');
+      if (schema.min !== undefined && value < schema.min) report(`must be at least ${schema.min}, got ${value}`);
+      if (schema.above !== undefined && value <= schema.above) report(`must be greater than ${schema.above}, got ${value}`);
+      if (schema.max !== undefined && value > schema.max) report(`must be at most ${schema.max}, got ${value}`);
+      return;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        report(`must be an array, got ${kindOf(value)}`);
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        report(`must contain at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+      }
+      value.forEach((item, index) => checkSchema(item, schema.items, joinPath(path, index), issues));
+      return;
+    }
+
+    case 'record': {
+      if (kindOf(value) !== 'object') {
+        report(`must be an object, got ${kindOf(value)}`);
+        return;
+      }
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        checkSchema(item, schema.values, joinPath(path, key), issues);
+      }
+      return;
+    }
+
+    case 'object': {
+      if (kindOf(value) !== 'object') {
+        report(`must be an object, got ${kindOf(value)}`);
+        return;
+      }
+      const fields = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (fields[key] === undefined) {
+          issues.push({ path: joinPath(path, key), message: 'is required' });
+        }
+      }
+      for (const [key, item] of Object.entries(fields)) {
+        const property = schema.properties[key];
+        if (!property) {
+          issues.push({ path: joinPath(path, key), message: 'is not a recognised option' });
+        } else if (item !== undefined) {
+          checkSchema(item, property, joinPath(path, key), issues);
+        }
+      }
+      return;
+    }
+
+    case 'union': {
+      const attempts = schema.options.map(option => {
+        const optionIssues: ConfigIssue[] = [];
+        checkSchema(value, option, path, optionIssues);
+        return { option, issues: optionIssues };
+      });
+      if (attempts.some(attempt => attempt.issues.length === 0)) return;
+
+      // Report the detailed problems of the option with the same shape, if there is exactly one
+      const sameKind = attempts.filter(attempt => {
+        const kind = attempt.option.type === 'object' || attempt.option.type === 'record' ? 'object'
+          : attempt.option.type === 'literal' ? typeof attempt.option.value
+          : attempt.option.type;
+        return kind === kindOf(value);
+      });
+      if (sameKind.length === 1) {
+        issues.push(...sameKind[0].issues);
+      } else {
+        report(`must be ${describe(schema)}`);
+      }
+      return;
+    }
+  }
+};
@@ -0,0 +1,554 @@
+import type { ConfigIssue } from '../types';
+import { DEFAULT_POOL } from '../services/router';
+import { STRATEGY_NAMES } from '../services/strategies';
+import { CONTINENT_CODES } from '../services/geo-router';
+import { STABLE_SPLIT } from '../services/release';
+import { isIpEntry } from '../utils/ip';
+import { any, arr, bool, checkSchema, joinPath, literal, num, obj, oneOf, record, str, type Schema } from './schema';
+
+const positive = () => num({ above: 0 });
+const nonNegative = () => num({ min: 0 });
+const count = () => num({ min: 1, integer: true });
+const strings = () => arr(str());
+const stringMap = () => record(str());
+const headerName = () => str({ nonEmpty: true });
+
+const headerRules = obj({ add: stringMap(), set: stringMap(), remove: strings() });
+
+const transformSchema = obj({
+  request: obj({ headers: headerRules }),
+  response: obj({
+    headers: headerRules,
+    rewriteLocation: bool(),
+    cookieDomains: stringMap(),
+    body: arr(obj({ find: str({ nonEmpty: true }), replace: str(), regex: bool() }, ['find', 'replace'])),
+    bodyContentTypes: strings()
+  })
+});
+
+const healthCheckSchema = obj({
+  path: str({ format: 'path' }),
+  method: str(),
+  headers: stringMap(),
+  expectedStatus: obj({ min: num({ min: 100, max: 599, integer: true }), max: num({ min: 100, max: 599, integer: true }) }, ['min', 'max']),
+  bodyContains: str(),
+  jsonPath: str({ nonEmpty: true }),
+  jsonValue: any(),
+  timeout: positive(),
+  healthyThreshold: positive(),
+  unhealthyThreshold: positive()
+});
+
+const circuitBreakerSchema = obj({
+  failureThreshold: positive(),
+  openTimeout: positive(),
+  halfOpenMaxRequests: positive(),
+  successThreshold: positive(),
+  errorRateThreshold: num({ above: 0, max: 1 }),
+  errorRateWindow: positive(),
+  minimumRequests: positive()
+});
+
+const backendSchema = obj({
+  url: str({ nonEmpty: true }),
+  weight: positive(),
+  region: str({ nonEmpty: true }),
+  timeouts: obj({ connect: positive(), total: positive() }),
+  circuitBreaker: circuitBreakerSchema,
+  healthCheck: healthCheckSchema,
+  transform: transformSchema
+}, ['url', 'weight', 'region']);
+
+const loadBalancingSchema = obj({
+  geoRouting: bool(),
+  strategy: str({ enum: STRATEGY_NAMES }),
+  hashKey: obj({ source: str({ enum: ['header', 'cookie', 'ip', 'path'] }), name: str() }, ['source']),
+  affinity: obj({ mode: str({ enum: ['cookie', 'header'] }), name: str(), ttl: positive() }, ['mode'])
+});
+
+const geoSchema = obj({
+  countries: record(str({ nonEmpty: true })),
+  colos: record(str({ nonEmpty: true })),
+  continents: record(str({ nonEmpty: true })),
+  regions: record(obj({
+    latitude: num({ min: -90, max: 90 }),
+    longitude: num({ min: -180, max: 180 })
+  }, ['latitude', 'longitude'])),
+  fallbacks: record(arr(str({ nonEmpty: true }))),
+  spilloverLatency: positive()
+});
+
+const retrySchema = obj({
+  attempts: count(),
+  maxBackends: count(),
+  bufferLimit: nonNegative(),
+  retryNonIdempotent: bool(),
+  backoff: obj({ base: nonNegative(), max: nonNegative(), jitter: bool() })
+});
+
+const cacheSchema = obj({
+  enabled: bool(),
+  defaultTtl: nonNegative(),
+  staleWhileRevalidate: nonNegative(),
+  staleIfError: nonNegative(),
+  key: obj({ ignoreQueryParams: strings(), headers: strings() })
+});
+
+const rateLimitSchema = obj({
+  name: str(),
+  key: obj({ source: str({ enum: ['ip', 'header', 'route'] }), name: str() }, ['source']),
+  limit: positive(),
+  window: num({ min: 1000 }),
+  burst: num({ min: 1 })
+}, ['key', 'limit', 'window']);
+
+const authSchema = obj({
+  apiKeys: obj({ header: headerName() }),
+  jwt: obj({
+    algorithms: arr(str({ enum: ['HS256', 'RS256'] })),
+    jwks: obj({ keys: arr(any()) }, ['keys']),
+    jwksUrl: str({ format: 'https-url' }),
+    issuer: oneOf(str(), strings()),
+    audience: oneOf(str(), strings()),
+    clockSkew: nonNegative(),
+    claimHeaders: stringMap()
+  })
+});
+
+const corsSchema = obj({
+  mode: str({ enum: ['proxy', 'passthrough'] }),
+  origins: strings(),
+  methods: strings(),
+  allowHeaders: strings(),
+  exposeHeaders: strings(),
+  credentials: bool(),
+  maxAge: nonNegative()
+});
+
+const hedgingSchema = obj({
+  enabled: bool(),
+  delay: nonNegative(),
+  quantile: num({ above: 0, max: 1 }),
+  minDelay: nonNegative(),
+  minSamples: count(),
+  maxHedges: count()
+});
+
+const releaseSchema = obj({
+  splits: arr(obj({ name: str({ nonEmpty: true }), pool: str({ nonEmpty: true }), percent: num({ min: 0, max: 100 }) }, ['name', 'pool', 'percent'])),
+  sticky: obj({ source: str({ enum: ['header', 'cookie', 'ip', 'path'] }), name: str() }, ['source']),
+  force: obj({ header: headerName(), cookie: str({ nonEmpty: true }) }),
+  mirror: obj({
+    pool: str({ nonEmpty: true }),
+    percent: num({ min: 0, max: 100 }),
+    name: str({ nonEmpty: true }),
+    methods: strings()
+  }, ['pool', 'percent'])
+});
+
+const errorPagesSchema = obj({
+  format: str({ enum: ['auto', 'problem', 'html'] }),
+  typeBase: str({ format: 'https-url' }),
+  pages: stringMap(),
+  hideUpstreamErrors: bool()
+});
+
+const accessListSchema = (entry: Schema = str({ nonEmpty: true })) => obj({ allow: arr(entry), deny: arr(entry) });
+
+const filterSchema = obj({
+  methods: strings(),
+  maxBodySize: nonNegative(),
+  blockTraversal: bool(),
+  blockEncodedSlashes: bool(),
+  maxHeaderCount: count(),
+  maxHeaderSize: count(),
+  ips: accessListSchema(),
+  countries: accessListSchema(),
+  userAgents: accessListSchema(str({ format: 'regex' }))
+});
+
+const routeSchema = obj({
+  name: str(),
+  match: obj({
+    host: str(),
+    pathPrefix: str({ format: 'path' }),
+    pathRegex: str({ format: 'regex' }),
+    methods: strings(),
+    headers: stringMap()
+  }),
+  pool: str({ nonEmpty: true }),
+  retry: retrySchema,
+  timeout: positive(),
+  cache: cacheSchema,
+  hedging: hedgingSchema,
+  release: releaseSchema,
+  errors: errorPagesSchema,
+  filter: filterSchema,
+  stripPrefix: bool(),
+  rewrite: obj({ pattern: str({ format: 'regex' }), replacement: str() }, ['pattern', 'replacement']),
+  rateLimits: arr(rateLimitSchema),
+  auth: oneOf(literal(false), authSchema),
+  cors: corsSchema,
+  transform: transformSchema
+}, ['match', 'pool']);
+
+// Documents in BACKENDS_CONFIG or KV; the env-derived fields are optional because they have defaults
+export const CONFIG_SCHEMA: Schema = obj({
+  backends: arr(backendSchema, 1),
+  loadBalancing: loadBalancingSchema,
+  geo: geoSchema,
+  pools: record(obj({ backends: arr(backendSchema, 1), loadBalancing: loadBalancingSchema }, ['backends'])),
+  routes: arr(routeSchema),
+  retry: retrySchema,
+  cache: cacheSchema,
+  retryBudget: obj({ ratio: num({ min: 0, max: 1 }), minRetriesPerSecond: nonNegative(), window: num({ min: 1000 }) }),
+  hedging: hedgingSchema,
+  release: releaseSchema,
+  errors: errorPagesSchema,
+  filter: filterSchema,
+  requestTimeout: positive(),
+  deadlineHeader: headerName(),
+  rateLimits: arr(rateLimitSchema),
+  auth: authSchema,
+  cors: corsSchema,
+  transform: transformSchema,
+  exposeBackendHeaders: bool(),
+  drained: strings(),
+  retryAttempts: count(),
+  enableCaching: bool(),
+  cacheMaxAge: nonNegative(),
+  healthCheckInterval: num({ min: 1000 }),
+  circuitBreakerThreshold: count(),
+  streamIdleTimeout: positive()
+}, ['backends']);
+
+export class ConfigValidationError extends Error {
+  constructor(public issues: ConfigIssue[]) {
+    super(`Invalid proxy configuration (${issues.length} problem${issues.length === 1 ? '' : 's'}):\n` +
+      issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n'));
+    this.name = 'ConfigValidationError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// Rules that span several fields or need more than a type and a range
+class SemanticChecks {
+  constructor(private issues: ConfigIssue[]) {}
+
+  private report(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  run(config: Fields): void {
+    this.backends(config.backends, 'backends');
+    this.loadBalancing(config.loadBalancing, 'loadBalancing');
+
+    if (isObject(config.pools)) {
+      for (const [name, pool] of Object.entries(config.pools)) {
+        if (!isObject(pool)) continue;
+        const path = joinPath('pools', name);
+        this.backends(pool.backends, joinPath(path, 'backends'));
+        this.loadBalancing(pool.loadBalancing, joinPath(path, 'loadBalancing'));
+      }
+    }
+
+    this.geo(config.geo, 'geo');
+    this.release(config.release, 'release', config);
+    this.errorPages(config.errors, 'errors');
+    this.filter(config.filter, 'filter');
+    this.retry(config.retry, 'retry');
+    this.rateLimits(config.rateLimits, 'rateLimits');
+    this.auth(config.auth, 'auth');
+    this.cors(config.cors, 'cors', {});
+    this.transform(config.transform, 'transform');
+
+    list(config.routes).forEach((route, index) => {
+      if (isObject(route)) this.route(route, joinPath('routes', index), config);
+    });
+  }
+
+  // Backend URLs are joined with the request path, so they must be a bare http(s) origin plus optional base path
+  private backends(backends: unknown, path: string): void {
+    const seen = new Map<string, string>();
+
+    list(backends).forEach((backend, index) => {
+      if (!isObject(backend)) return;
+      const backendPath = joinPath(path, index);
+
+      if (typeof backend.url === 'string' && backend.url) {
+        this.backendUrl(backend.url, joinPath(backendPath, 'url'));
+
+        const first = seen.get(backend.url);
+        if (first) {
+          this.report(joinPath(backendPath, 'url'), `duplicates ${first}`);
+        } else {
+          seen.set(backend.url, backendPath);
+        }
+      }
+
+      if (isObject(backend.healthCheck)) {
+        this.healthCheck(backend.healthCheck, joinPath(backendPath, 'healthCheck'));
+      }
+      this.transform(backend.transform, joinPath(backendPath, 'transform'));
+    });
+  }
+
+  private backendUrl(url: string, path: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      this.report(path, `is not a valid URL: "${url}"`);
+      return;
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      this.report(path, `must use http or https, got "${parsed.protocol.slice(0, -1)}"`);
+    }
+    if (parsed.search || parsed.hash || url.endsWith('?') || url.endsWith('#')) {
+      this.report(path, 'must not include a query string or fragment');
+    }
+    if (parsed.username || parsed.password) {
+      this.report(path, 'must not include credentials');
+    }
+    if (url.endsWith('/')) {
+      this.report(path, 'must not end with "/"');
+    }
+  }
+
+  private healthCheck(check: Fields, path: string): void {
+    const method = typeof check.method === 'string' ? check.method.toUpperCase() : undefined;
+    if (method !== undefined && !['GET', 'HEAD', 'POST', 'OPTIONS'].includes(method)) {
+      this.report(joinPath(path, 'method'), 'must be GET, HEAD, POST or OPTIONS');
+    }
+
+    const assertsBody = check.bodyContains !== undefined || check.jsonPath !== undefined;
+    if (assertsBody && (method ?? 'HEAD') === 'HEAD') {
+      this.report(joinPath(path, 'method'), 'body assertions require a method other than HEAD');
+    }
+    if (check.jsonValue !== undefined && check.jsonPath === undefined) {
+      this.report(joinPath(path, 'jsonValue'), 'requires jsonPath');
+    }
+
+    const status = check.expectedStatus;
+    if (isObject(status) && typeof status.min === 'number' && typeof status.max === 'number' && status.min > status.max) {
+      this.report(joinPath(path, 'expectedStatus'), 'min must not exceed max');
+    }
+  }
+
+  private loadBalancing(options: unknown, path: string): void {
+    if (!isObject(options)) return;
+
+    const hashKey = options.hashKey;
+    if (isObject(hashKey) && (hashKey.source === 'header' || hashKey.source === 'cookie') && !hashKey.name) {
+      this.report(joinPath(joinPath(path, 'hashKey'), 'name'), `is required for ${hashKey.source} hashing`);
+    }
+  }
+
+  private geo(geo: unknown, path: string): void {
+    if (!isObject(geo)) return;
+
+    for (const key of Object.keys(isObject(geo.countries) ? geo.countries : {})) {
+      if (!/^[A-Za-z]{2}$/.test(key)) {
+        this.report(joinPath(joinPath(path, 'countries'), key), 'must be a two-letter country code');
+      }
+    }
+    for (const key of Object.keys(isObject(geo.continents) ? geo.continents : {})) {
+      if (!(CONTINENT_CODES as readonly string[]).includes(key.toUpperCase())) {
+        this.report(joinPath(joinPath(path, 'continents'), key), `must be one of ${CONTINENT_CODES.join(', ')}`);
+      }
+    }
+  }
+
+  private release(release: unknown, path: string, config: Fields): void {
+    if (!isObject(release)) return;
+
+    const checkPool = (pool: unknown, poolPath: string) => {
+      if (typeof pool === 'string' && !this.poolExists(pool, config)) {
+        this.report(poolPath, `references unknown pool "${pool}"`);
+      }
+    };
+
+    const names = new Set<string>();
+    let total = 0;
+    list(release.splits).forEach((split, index) => {
+      if (!isObject(split)) return;
+      const splitPath = joinPath(joinPath(path, 'splits'), index);
+
+      checkPool(split.pool, joinPath(splitPath, 'pool'));
+      if (typeof split.percent === 'number') total += split.percent;
+      if (typeof split.name === 'string') {
+        const name = split.name.toLowerCase();
+        if (name === STABLE_SPLIT) {
+          this.report(joinPath(splitPath, 'name'), `"${STABLE_SPLIT}" is reserved for the route's own pool`);
+        } else if (names.has(name)) {
+          this.report(joinPath(splitPath, 'name'), `duplicates another split name "${split.name}"`);
+        }
+        names.add(name);
+      }
+    });
+    if (total > 100) {
+      this.report(joinPath(path, 'splits'), `percentages add up to ${total}, more than 100`);
+    }
+
+    const sticky = release.sticky;
+    if (isObject(sticky) && (sticky.source === 'header' || sticky.source === 'cookie') && !sticky.name) {
+      this.report(joinPath(joinPath(path, 'sticky'), 'name'), `is required for ${sticky.source} stickiness`);
+    }
+    if (isObject(release.mirror)) {
+      checkPool(release.mirror.pool, joinPath(joinPath(path, 'mirror'), 'pool'));
+    }
+  }
+
+  // Pages are looked up by exact status, then status class, then "default"
+  private errorPages(errors: unknown, path: string): void {
+    if (!isObject(errors) || !isObject(errors.pages)) return;
+
+    for (const key of Object.keys(errors.pages)) {
+      if (!/^([1-5]\d\d|[1-5]xx|default)$/.test(key)) {
+        this.report(joinPath(joinPath(path, 'pages'), key), 'must be a status code such as "502", a class such as "5xx" or "default"');
+      }
+    }
+  }
+
+  // Entries the filter would silently never match are reported instead
+  private filter(filter: unknown, path: string): void {
+    if (!isObject(filter)) return;
+
+    list(filter.methods).forEach((method, index) => {
+      if (typeof method === 'string' && !/^[A-Za-z]+$/.test(method)) {
+        this.report(joinPath(joinPath(path, 'methods'), index), `is not a valid method: "${method}"`);
+      }
+    });
+
+    const entries = (name: string, valid: (entry: string) => boolean, message: string) => {
+      const lists = isObject(filter[name]) ? filter[name] : {};
+      for (const kind of ['allow', 'deny']) {
+        list(lists[kind]).forEach((entry, index) => {
+          if (typeof entry === 'string' && !valid(entry)) {
+            this.report(joinPath(joinPath(joinPath(path, name), kind), index), `${message}: "${entry}"`);
+          }
+        });
+      }
+    };
+    entries('ips', isIpEntry, 'is not an IP address or CIDR range');
+    entries('countries', entry => /^[A-Za-z]{2}$/.test(entry), 'is not a two-letter country code');
+  }
+
+  private poolExists(pool: string, config: Fields): boolean {
+    return pool === DEFAULT_POOL || (isObject(config.pools) && pool in config.pools);
+  }
+
+  private retry(retry: unknown, path: string): void {
+    if (!isObject(retry) || !isObject(retry.backoff)) return;
+
+    const { base, max } = retry.backoff;
+    if (typeof base === 'number' && typeof max === 'number' && base > max) {
+      this.report(joinPath(path, 'backoff'), 'base must not exceed max');
+    }
+  }
+
+  private rateLimits(rules: unknown, path: string): void {
+    list(rules).forEach((rule, index) => {
+      if (isObject(rule) && isObject(rule.key) && rule.key.source === 'header' && !rule.key.name) {
+        this.report(joinPath(joinPath(joinPath(path, index), 'key'), 'name'), 'is required for header limits');
+      }
+    });
+  }
+
+  private auth(auth: unknown, path: string): void {
+    if (!isObject(auth)) return;
+
+    if (!auth.apiKeys && !auth.jwt) {
+      this.report(path, 'must enable apiKeys, jwt or both');
+    }
+
+    const claimHeaders = isObject(auth.jwt) ? auth.jwt.claimHeaders : undefined;
+    if (isObject(claimHeaders)) {
+      for (const [claim, header] of Object.entries(claimHeaders)) {
+        if (typeof header === 'string' && !/^[\w-]+$/.test(header)) {
+          this.report(joinPath(joinPath(joinPath(path, 'jwt'), 'claimHeaders'), claim), `is not a valid header name: "${header}"`);
+        }
+      }
+    }
+  }
+
+  // Route policies are layered over the global one, so a route inherits its origins
+  private cors(cors: unknown, path: string, inherited: Fields): void {
+    if (!isObject(cors)) return;
+
+    const credentials = cors.credentials ?? inherited.credentials;
+    const origins = cors.origins ?? inherited.origins;
+    if (credentials === true && (origins === undefined || list(origins).includes('*'))) {
+      this.report(joinPath(path, 'credentials'), 'requires an explicit origins list without "*"');
+    }
+
+    list(cors.origins).forEach((origin, index) => {
+      if (typeof origin !== 'string' || origin.length < 2 || !origin.startsWith('/') || !origin.endsWith('/')) return;
+      try {
+        new RegExp(origin.slice(1, -1));
+      } catch (error) {
+        this.report(joinPath(joinPath(path, 'origins'), index), `is not a valid pattern: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  private transform(transform: unknown, path: string): void {
+    if (!isObject(transform) || !isObject(transform.response)) return;
+
+    list(transform.response.body).forEach((replacement, index) => {
+      if (!isObject(replacement) || !replacement.regex || typeof replacement.find !== 'string') return;
+      try {
+        new RegExp(replacement.find, 'g');
+      } catch (error) {
+        const findPath = joinPath(joinPath(joinPath(joinPath(path, 'response'), 'body'), index), 'find');
+        this.report(findPath, `is not a valid regular expression: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  private route(route: Fields, path: string, config: Fields): void {
+    if (isObject(route.match) && Object.keys(route.match).length === 0) {
+      this.report(joinPath(path, 'match'), 'must define at least one condition');
+    }
+    if (typeof route.pool === 'string' && !this.poolExists(route.pool, config)) {
+      this.report(joinPath(path, 'pool'), `references unknown pool "${route.pool}"`);
+    }
+    if (route.stripPrefix && !(isObject(route.match) && route.match.pathPrefix)) {
+      this.report(joinPath(path, 'stripPrefix'), 'requires match.pathPrefix');
+    }
+
+    this.release(route.release, joinPath(path, 'release'), config);
+    this.errorPages(route.errors, joinPath(path, 'errors'));
+    this.filter(route.filter, joinPath(path, 'filter'));
+    this.retry(route.retry, joinPath(path, 'retry'));
+    this.rateLimits(route.rateLimits, joinPath(path, 'rateLimits'));
+    this.auth(route.auth, joinPath(path, 'auth'));
+    this.cors(route.cors, joinPath(path, 'cors'), isObject(config.cors) ? config.cors : {});
+    this.transform(route.transform, joinPath(path, 'transform'));
+  }
+}
+
+// Every problem in the document, in document order for types and ranges, then cross-field rules
+export const validateConfigDocument = (document: unknown): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  checkSchema(document, CONFIG_SCHEMA, '', issues);
+  if (isObject(document)) {
+    new SemanticChecks(issues).run(document);
+  }
+  return issues;
+};
+
+export const assertValidConfig = (document: unknown): void => {
+  const issues = validateConfigDocument(document);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+};
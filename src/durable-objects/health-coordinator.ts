@@ -0,0 +1,53 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { BackendStateSnapshot, Env, HealthCheckResult, StateReport } from '../types';
+import { ConfigStore } from '../config/config-store';
+import { BackendStateStore } from '../services/backend-state';
+
+const STATE_KEY = 'state';
+
+// Single global instance that owns backend health and metrics for every isolate
+export class HealthCoordinator extends DurableObject<Env> {
+  private store!: BackendStateStore;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    ctx.blockConcurrencyWhile(async () => {
+      const snapshot = await ctx.storage.get<BackendStateSnapshot>(STATE_KEY);
+      this.store = new BackendStateStore(await ConfigStore.load(env), snapshot);
+    });
+  }
+
+  async getSnapshot(): Promise<BackendStateSnapshot> {
+    return this.store.snapshot();
+  }
+
+  async report(report: StateReport): Promise<void> {
+    await this.refreshConfig();
+    this.store.applyReport(report);
+    await this.persist();
+  }
+
+  async recordHealthChecks(results: HealthCheckResult[]): Promise<void> {
+    await this.refreshConfig();
+    this.store.applyHealthChecks(results);
+    await this.persist();
+  }
+
+  // Half-open circuits admit a limited number of live requests across all isolates
+  async acquireTrial(url: string): Promise<boolean> {
+    await this.refreshConfig();
+    const granted = this.store.acquireTrial(url);
+    await this.persist();
+    return granted;
+  }
+
+  // Circuit breaker settings follow config published to KV
+  private async refreshConfig(): Promise<void> {
+    this.store.setConfig(await ConfigStore.load(this.env));
+  }
+
+  private async persist(): Promise<void> {
+    await this.ctx.storage.put(STATE_KEY, this.store.snapshot());
+  }
+}
@@ -0,0 +1,25 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { Env, RateLimitConfig, RateLimitDecision, TokenBucketState } from '../types';
+import { takeToken } from '../services/rate-limiter';
+
+const BUCKET_KEY = 'bucket';
+
+// Holds a single token bucket; instances are addressed by bucket key
+export class RateLimiter extends DurableObject<Env> {
+  private bucket: TokenBucketState | undefined;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    ctx.blockConcurrencyWhile(async () => {
+      this.bucket = await ctx.storage.get<TokenBucketState>(BUCKET_KEY);
+    });
+  }
+
+  async take(rule: RateLimitConfig): Promise<RateLimitDecision> {
+    const { state, decision } = takeToken(rule, this.bucket, Date.now());
+    this.bucket = state;
+    await this.ctx.storage.put(BUCKET_KEY, state);
+    return decision;
+  }
+}
@@ -0,0 +1,156 @@
+import type { Env, ProxyConfig } from '../types';
+import { ConfigLoader } from '../config/backends';
+import { ConfigStore } from '../config/config-store';
+import { ConfigValidationError } from '../config/validator';
+import { ErrorPages } from '../services/error-pages';
+import { ProxyError } from '../utils/errors';
+import { getBearerToken } from '../utils/helpers';
+import { timingSafeEqual } from '../utils/crypto';
+
+export const ADMIN_PREFIX = '/__proxy/admin';
+
+const json = (body: unknown, status = 200): Response => {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+  });
+};
+
+// Config and maintenance API under /__proxy/admin, with `Authorization: Bearer <ADMIN_TOKEN>`
+export class AdminHandler {
+  private store: ConfigStore;
+
+  constructor(private env: Env) {
+    this.store = new ConfigStore(env);
+  }
+
+  async handle(request: Request): Promise<Response> {
+    if (!this.env.ADMIN_TOKEN) {
+      return ErrorPages.respondTo(request, new ProxyError('not-found', 'Not found'));
+    }
+
+    const token = getBearerToken(request);
+    if (!token || !timingSafeEqual(token, this.env.ADMIN_TOKEN)) {
+      return ErrorPages.respondTo(request, new ProxyError('unauthorized', 'Unauthorized'));
+    }
+
+    const path = new URL(request.url).pathname.slice(ADMIN_PREFIX.length).replace(/\/$/, '');
+    const route = `${request.method} ${path}`;
+
+    try {
+      if (route === 'GET /config') return await this.getConfig();
+      if (route === 'POST /config/validate') return await this.validate(request);
+
+      // Everything below reads or writes the KV namespace
+      if (!this.env.CONFIG_KV) {
+        return ErrorPages.respondTo(request, new ProxyError('not-implemented', 'CONFIG_KV namespace is not bound'));
+      }
+
+      if (route === 'PUT /config') return await this.publish(request);
+      if (route === 'GET /config/versions') return json({ versions: await this.store.listVersions() });
+      if (route === 'POST /config/rollback') return await this.rollback(request);
+      if (route === 'POST /backends/drain') return await this.drain(request, true);
+      if (route === 'POST /backends/undrain') return await this.drain(request, false);
+
+      const versionMatch = path.match(/^\/config\/versions\/(\d+)$/);
+      if (versionMatch && request.method === 'GET') {
+        const version = await this.store.getVersion(Number(versionMatch[1]));
+        if (version) return json(version);
+        return ErrorPages.respondTo(request, new ProxyError('not-found', 'Config version not found'));
+      }
+
+      return ErrorPages.respondTo(request, new ProxyError('not-found', 'Not found'));
+    } catch (error) {
+      console.error('Admin request failed:', error);
+      return ErrorPages.respondTo(request, new ProxyError('internal', 'Admin request failed', { cause: error }));
+    }
+  }
+
+  private async getConfig(): Promise<Response> {
+    const loaded = await this.store.refresh();
+    return json({
+      source: loaded.source,
+      version: loaded.version,
+      error: loaded.error,
+      drained: loaded.config.drained || [],
+      config: loaded.config
+    });
+  }
+
+  private async validate(request: Request): Promise<Response> {
+    const document = await this.readJSON<Partial<ProxyConfig>>(request);
+    if (document instanceof Response) return document;
+
+    const invalid = this.check(document);
+    return invalid ?? json({ valid: true, errors: [] });
+  }
+
+  // PUT a config document; `?comment=` is stored with the version
+  private async publish(request: Request): Promise<Response> {
+    const document = await this.readJSON<Partial<ProxyConfig>>(request);
+    if (document instanceof Response) return document;
+
+    const invalid = this.check(document);
+    if (invalid) return invalid;
+
+    const comment = new URL(request.url).searchParams.get('comment') ?? undefined;
+    const version = await this.store.publish(document, comment);
+    return json({ version: version.version, createdAt: version.createdAt }, 201);
+  }
+
+  private async rollback(request: Request): Promise<Response> {
+    const body = await this.readJSON<{ version?: number }>(request);
+    if (body instanceof Response) return body;
+    if (!Number.isInteger(body.version)) {
+      return ErrorPages.respondTo(request, new ProxyError('bad-request', 'Provide the "version" to roll back to'));
+    }
+
+    const target = await this.store.getVersion(body.version!);
+    if (!target) {
+      return ErrorPages.respondTo(request, new ProxyError('not-found', 'Config version not found'));
+    }
+
+    const version = await this.store.rollback(body.version!);
+    return json({ version: version.version, restored: body.version }, 201);
+  }
+
+  private async drain(request: Request, drained: boolean): Promise<Response> {
+    const body = await this.readJSON<{ url?: string }>(request);
+    if (body instanceof Response) return body;
+    if (typeof body.url !== 'string') {
+      return ErrorPages.respondTo(request, new ProxyError('bad-request', 'Provide the backend "url"'));
+    }
+
+    const config = (await this.store.current()).config;
+    if (drained && !ConfigLoader.findBackend(config, body.url)) {
+      return ErrorPages.respondTo(request, new ProxyError('not-found', 'Backend is not configured'));
+    }
+
+    return json({ drained: await this.store.setDrained(body.url, drained) });
+  }
+
+  // A 422 listing every problem with its path, or null when the document is valid
+  private check(document: Partial<ProxyConfig>): Response | null {
+    try {
+      ConfigLoader.validateConfig(ConfigLoader.fromDocument(document, this.env));
+      return null;
+    } catch (error) {
+      const errors = error instanceof ConfigValidationError
+        ? error.issues
+        : [{ path: '(root)', message: (error as Error).message }];
+      return json({ valid: false, errors }, 422);
+    }
+  }
+
+  private async readJSON<T>(request: Request): Promise<T | Response> {
+    try {
+      const body = await request.json<T>();
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return ErrorPages.respondTo(request, new ProxyError('bad-request', 'Request body must be a JSON object'));
+      }
+      return body;
+    } catch (error) {
+      return ErrorPages.respondTo(request, new ProxyError('bad-request', 'Invalid JSON body'));
+    }
+  }
+}
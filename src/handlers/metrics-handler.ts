@@ -0,0 +1,223 @@
+import type {
+  BackendHealth,
+  BackendMetrics,
+  BackendStateSnapshot,
+  CircuitState,
+  Env,
+  ProxyConfig,
+  SplitMetrics
+} from '../types';
+import { ConfigLoader } from '../config/backends';
+import { ConfigStore } from '../config/config-store';
+import { createCoordinator } from '../services/coordinator';
+import { ErrorPages } from '../services/error-pages';
+import { ProxyError } from '../utils/errors';
+import { getBearerToken } from '../utils/helpers';
+import { timingSafeEqual } from '../utils/crypto';
+import { ipInList } from '../utils/ip';
+import { createHistogram, quantile } from '../utils/histogram';
+import { PrometheusWriter, PROMETHEUS_CONTENT_TYPE, type Sample } from '../utils/prometheus';
+
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'open', 'half-open'];
+const QUANTILES = [0.5, 0.95, 0.99];
+
+interface BackendView {
+  url: string;
+  region: string;
+  drained: boolean;
+  health?: BackendHealth;
+  metrics?: BackendMetrics;
+}
+
+// Open in development; elsewhere requires `Authorization: Bearer <METRICS_TOKEN>` or a client IP in METRICS_ALLOWED_IPS
+export class MetricsHandler {
+  constructor(private env: Env) {}
+
+  async handle(request: Request): Promise<Response> {
+    const denied = this.authorize(request);
+    if (denied) return denied;
+
+    const config = await ConfigStore.load(this.env);
+    const snapshot = await createCoordinator(this.env, config).getSnapshot();
+    const backends = this.collect(config, snapshot);
+
+    if (request.headers.get('Accept')?.includes('application/json')) {
+      return new Response(JSON.stringify(this.toJSON(backends, snapshot), null, 2), {
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+      });
+    }
+
+    return new Response(this.toPrometheus(backends, snapshot), {
+      headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE, 'Cache-Control': 'no-store' }
+    });
+  }
+
+  private authorize(request: Request): Response | null {
+    if (this.env.ENVIRONMENT === 'development') return null;
+
+    const allowedIPs = (this.env.METRICS_ALLOWED_IPS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    if (!this.env.METRICS_TOKEN && allowedIPs.length === 0) {
+      return ErrorPages.respondTo(request, new ProxyError('not-found', 'Not found'));
+    }
+
+    const token = getBearerToken(request);
+    if (this.env.METRICS_TOKEN && token && timingSafeEqual(token, this.env.METRICS_TOKEN)) {
+      return null;
+    }
+
+    const clientIP = request.headers.get('CF-Connecting-IP');
+    if (clientIP && ipInList(clientIP, allowedIPs)) {
+      return null;
+    }
+
+    return this.env.METRICS_TOKEN
+      ? ErrorPages.respondTo(request, new ProxyError('unauthorized', 'Unauthorized'))
+      : ErrorPages.respondTo(request, new ProxyError('forbidden', 'Forbidden'));
+  }
+
+  // Every configured backend is reported, including ones that have not served traffic yet
+  private collect(config: ProxyConfig, snapshot: BackendStateSnapshot): BackendView[] {
+    return ConfigLoader.allBackends(config).map(backend => ({
+      url: backend.url,
+      region: backend.region,
+      drained: (config.drained || []).includes(backend.url),
+      health: snapshot.health[backend.url],
+      metrics: snapshot.metrics[backend.url]
+    }));
+  }
+
+  private toJSON(backends: BackendView[], snapshot: BackendStateSnapshot): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const { url, region, drained, health, metrics } of backends) {
+      const requests = metrics?.requests ?? 0;
+      const histogram = metrics?.latencyHistogram ?? createHistogram();
+      result[url] = {
+        region,
+        requests,
+        errors: metrics?.errors ?? 0,
+        errorRate: requests > 0 ? metrics!.errors / requests : 0,
+        retries: metrics?.retries ?? 0,
+        hedgeWins: metrics?.hedgeWins ?? 0,
+        hedgeLosses: metrics?.hedgeLosses ?? 0,
+        statusClasses: metrics?.statusClasses ?? {},
+        avgResponseTime: requests > 0 ? metrics!.totalTime / requests : 0,
+        p50: quantile(histogram, 0.5),
+        p95: quantile(histogram, 0.95),
+        p99: quantile(histogram, 0.99),
+        isHealthy: health?.isHealthy ?? true,
+        drained,
+        circuitState: health?.state ?? 'closed',
+        consecutiveFailures: health?.consecutiveFailures ?? 0
+      };
+    }
+
+    // Per route and split, so canary and stable error rates can be compared side by side
+    const splits: Record<string, any> = {};
+    for (const [key, split] of Object.entries(snapshot.splits)) {
+      splits[key] = {
+        route: split.route,
+        split: split.split,
+        requests: split.requests,
+        errors: split.errors,
+        errorRate: split.requests > 0 ? split.errors / split.requests : 0,
+        statusClasses: split.statusClasses,
+        avgResponseTime: split.requests > 0 ? split.totalTime / split.requests : 0,
+        p95: quantile(split.latencyHistogram, 0.95)
+      };
+    }
+
+    return {
+      backends: result,
+      splits,
+      cache: { ...snapshot.cache, hitRatio: this.hitRatio(snapshot) }
+    };
+  }
+
+  private toPrometheus(backends: BackendView[], snapshot: BackendStateSnapshot): string {
+    const labelsFor = (backend: BackendView) => ({ backend: backend.url, region: backend.region });
+    const perBackend = (value: (backend: BackendView) => number): Sample[] => {
+      return backends.map(backend => ({ labels: labelsFor(backend), value: value(backend) }));
+    };
+
+    const requests: Sample[] = backends.flatMap(backend => {
+      return Object.entries(backend.metrics?.statusClasses ?? {}).map(([statusClass, count]) => ({
+        labels: { ...labelsFor(backend), status_class: statusClass },
+        value: count ?? 0
+      }));
+    });
+
+    const circuitStates: Sample[] = backends.flatMap(backend => {
+      const current = backend.health?.state ?? 'closed';
+      return CIRCUIT_STATES.map(state => ({
+        labels: { ...labelsFor(backend), state },
+        value: state === current ? 1 : 0
+      }));
+    });
+
+    const hedges: Sample[] = backends.flatMap(backend => [
+      { labels: { ...labelsFor(backend), result: 'win' }, value: backend.metrics?.hedgeWins ?? 0 },
+      { labels: { ...labelsFor(backend), result: 'loss' }, value: backend.metrics?.hedgeLosses ?? 0 }
+    ]);
+
+    const quantiles: Sample[] = backends.flatMap(backend => {
+      const histogram = backend.metrics?.latencyHistogram ?? createHistogram();
+      return QUANTILES.map(q => ({
+        labels: { ...labelsFor(backend), quantile: String(q) },
+        value: quantile(histogram, q) / 1000
+      }));
+    });
+
+    const { hit, miss, stale } = snapshot.cache;
+    const splits = Object.values(snapshot.splits);
+    const splitLabels = (split: SplitMetrics) => ({ route: split.route, split: split.split });
+
+    return new PrometheusWriter()
+      .counter('proxy_backend_requests_total', 'Upstream responses by status class; "error" means no response.', requests)
+      .counter('proxy_backend_errors_total', 'Upstream attempts recorded as failures.', perBackend(b => b.metrics?.errors ?? 0))
+      .counter('proxy_backend_retries_total', 'Retries and fallbacks sent to the backend.', perBackend(b => b.metrics?.retries ?? 0))
+      .counter('proxy_backend_hedges_total', 'Hedged races the backend took part in, by result.', hedges)
+      .histogram('proxy_backend_latency_seconds', 'Time to upstream response headers.', backends.map(backend => ({
+        labels: labelsFor(backend),
+        histogram: backend.metrics?.latencyHistogram ?? createHistogram(),
+        sum: backend.metrics?.totalTime ?? 0
+      })))
+      .gauge('proxy_backend_latency_quantile_seconds', 'Latency quantiles estimated from the histogram.', quantiles)
+      .gauge('proxy_backend_up', 'Whether the backend currently accepts requests.', perBackend(b => b.health?.isHealthy === false ? 0 : 1))
+      .gauge('proxy_backend_drained', 'Whether the backend is drained for maintenance.', perBackend(b => b.drained ? 1 : 0))
+      .gauge('proxy_circuit_state', 'Circuit breaker state, 1 for the current state.', circuitStates)
+      .counter('proxy_split_requests_total', 'Client requests per traffic split, by final status class.', splits.flatMap(split => {
+        return Object.entries(split.statusClasses).map(([statusClass, count]) => ({
+          labels: { ...splitLabels(split), status_class: statusClass },
+          value: count ?? 0
+        }));
+      }))
+      .counter('proxy_split_errors_total', 'Requests per traffic split that ended in an error or 5xx.', splits.map(split => ({
+        labels: splitLabels(split),
+        value: split.errors
+      })))
+      .histogram('proxy_split_latency_seconds', 'Time to response headers per traffic split, fallbacks included.', splits.map(split => ({
+        labels: splitLabels(split),
+        histogram: split.latencyHistogram,
+        sum: split.totalTime
+      })))
+      .counter('proxy_cache_requests_total', 'Cacheable requests by cache status.', [
+        { labels: { status: 'hit' }, value: hit },
+        { labels: { status: 'miss' }, value: miss },
+        { labels: { status: 'stale' }, value: stale }
+      ])
+      .gauge('proxy_cache_hit_ratio', 'Share of cacheable requests served from cache, stale included.', [
+        { labels: {}, value: this.hitRatio(snapshot) }
+      ])
+      .toString();
+  }
+
+  private hitRatio(snapshot: BackendStateSnapshot): number {
+    const { hit, miss, stale } = snapshot.cache;
+    const total = hit + miss + stale;
+    return total > 0 ? (hit + stale) / total : 0;
+  }
+}
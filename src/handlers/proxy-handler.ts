@@ -1,304 +1,656 @@
-import type { Env, RequestInfo, BackendConfig, BackendHealth, BackendMetrics } from '../types';
-import { ConfigLoader } from '../config/backends';
+import type {
+  Env,
+  ProxyConfig,
+  RequestInfo,
+  BackendConfig,
+  BackendUpdate,
+  CacheCounters,
+  HedgeOutcome,
+  SplitUpdate,
+  TraceContext
+} from '../types';
 import { LoadBalancer } from '../services/load-balancer';
-import { ProxyService } from '../services/proxy-service';
-import { createErrorResponse, generateRequestId, isNetworkError, getErrorStatus } from '../utils/helpers';
+import { ProxyService, DEFAULT_REQUEST_TIMEOUT } from '../services/proxy-service';
+import { BackendStateStore } from '../services/backend-state';
+import { createCoordinator, type Coordinator } from '../services/coordinator';
+import { Router, DEFAULT_POOL, type ResolvedRoute } from '../services/router';
+import { ReleaseRouter, MIRROR_HEADER, STABLE_SPLIT } from '../services/release';
+import { SessionAffinity } from '../services/affinity';
+import { RetryPolicy } from '../services/retry-policy';
+import { RetryBudget } from '../services/retry-budget';
+import { HttpCache } from '../services/http-cache';
+import { HedgePolicy } from '../services/hedging';
+import { AccessLog } from '../services/access-log';
+import { ErrorPages } from '../services/error-pages';
+import { RequestFilter } from '../services/request-filter';
+import { AuthGateway } from '../services/auth';
+import { Transformer } from '../services/transformer';
+import { RateLimitService, createRateLimitStore, type RateLimitResult } from '../services/rate-limiter';
+import { Deadline } from '../utils/deadline';
+import { bufferRequestBody, limitRequestBody, type RequestBody } from '../utils/body';
+import { CorsPolicy, isPreflightRequest } from '../utils/cors';
+import { createTraceContext, setTraceHeaders } from '../utils/trace';
+import { ProxyError } from '../utils/errors';
+import { copyResponse, isNetworkError } from '../utils/helpers';
+
+interface ProxyResult {
+  response: Response;
+  backend: BackendConfig;
+}
+
+interface AttemptResult {
+  response?: Response;
+  error?: Error;
+  duration: number;
+  retries: number;
+}
+
+interface InFlightAttempt {
+  backend: BackendConfig;
+  trial: boolean;
+  fallback: number;
+  startedAt: number;
+  controller: AbortController;
+  result: Promise<AttemptResult>;
+}
+
+interface SettledAttempt extends AttemptResult {
+  attempt: InFlightAttempt;
+}
+
+interface AttemptOptions {
+  body: RequestBody;
+  retryPolicy: RetryPolicy;
+  deadline: Deadline;
+  preferred?: BackendConfig;
+}
 
 export class ProxyHandler {
   private loadBalancer: LoadBalancer;
   private proxyService: ProxyService;
+  private router: Router;
+  private retryBudget: RetryBudget;
+  private rateLimits: RateLimitService;
+  private coordinator: Coordinator;
   private cache: Cache;
   private config: any;
-  private healthStatus = new Map<string, BackendHealth>();
-  private metrics = new Map<string, BackendMetrics>();
+  private state!: BackendStateStore;
+  private pendingUpdates: BackendUpdate[] = [];
+  private pendingCache: Partial<CacheCounters> | undefined;
+  private pendingHedges: HedgeOutcome[] = [];
+  private pendingSplits: SplitUpdate[] = [];
+  private accessLog!: AccessLog;
+  private rateLimit: RateLimitResult | null = null;
+  private cors: CorsPolicy;
+  private errorPages: ErrorPages;
+
+  // `config` comes from ConfigStore, which has already validated it
+  constructor(private env: Env, private ctx: ExecutionContext, config: ProxyConfig) {
+    this.config = config;
+
+    this.loadBalancer = new LoadBalancer(this.config.geo);
+    this.proxyService = new ProxyService(this.config, env.UPSTREAM_SIGNING_SECRET);
+    this.router = new Router(this.config);
+    this.retryBudget = new RetryBudget(this.config.retryBudget);
+    this.rateLimits = new RateLimitService(this.config, createRateLimitStore(env));
+    this.coordinator = createCoordinator(env, this.config);
+    this.cache = caches.default;
+    this.cors = CorsPolicy.forRoute(this.config);
+    this.errorPages = ErrorPages.forRoute(this.config);
+  }
 
-  constructor(env: Env) {
-    this.config = ConfigLoader.loadConfig(env);
-    ConfigLoader.validateConfig(this.config);
+  async handleRequest(request: Request): Promise<Response> {
+    const trace = createTraceContext(request);
+    this.accessLog = new AccessLog(request, trace);
 
-    this.loadBalancer = new LoadBalancer();
-    this.proxyService = new ProxyService(this.config);
-    this.cache = caches.default;
+    const response = await this.processRequest(request, trace);
+    this.accessLog.write(response.status);
 
-    // Initialize backend health status
-    this.config.backends.forEach((backend: BackendConfig) => {
-      this.healthStatus.set(backend.url, {
-        isHealthy: true,
-        lastCheck: 0,
-        consecutiveFailures: 0,
-        avgResponseTime: 0
-      });
-      this.metrics.set(backend.url, {
-        requests: 0,
-        errors: 0,
-        totalTime: 0
-      });
-    });
+    // Echo the IDs so clients can quote them when reporting problems
+    const tracedResponse = copyResponse(response);
+    setTraceHeaders(tracedResponse.headers, trace);
+    if (this.rateLimit) {
+      RateLimitService.applyHeaders(tracedResponse.headers, this.rateLimit);
+    }
+    // Locally answered preflights already carry their CORS headers
+    return isPreflightRequest(request) ? tracedResponse : this.cors.apply(request, tracedResponse);
   }
 
-  async handleRequest(request: Request): Promise<Response> {
-    const requestId = generateRequestId();
+  private async processRequest(request: Request, trace: TraceContext): Promise<Response> {
     const startTime = Date.now();
+    let bodyTooLarge = false;
 
     try {
-      const requestInfo = this.parseRequest(request);
-
-      // Request size check
-      if (await this.isRequestTooLarge(request)) {
-        return createErrorResponse('Request too large', 413);
+      // Resolve the backend pool for this request
+      let route = this.router.resolve(request);
+      this.accessLog.setRoute(route.route?.name ?? route.poolName);
+
+      // Preflights are answered here unless the route passes CORS through to the backend
+      this.cors = CorsPolicy.forRoute(this.config, route.route);
+      this.errorPages = ErrorPages.forRoute(this.config, route.route);
+      const preflight = isPreflightRequest(request);
+      if (preflight && !this.cors.passthrough) {
+        return this.cors.preflight(request);
       }
 
-      // Try cache for GET requests
-      if (this.config.enableCaching && request.method === 'GET') {
-        const cachedResponse = await this.getCachedResponse(request);
-        if (cachedResponse) {
-          return cachedResponse;
+      // Method, path, header and client rules, then a byte count on the streamed body
+      const filter = RequestFilter.forRoute(this.config, route.route);
+      const rejection = filter.check(request, this.parseRequest(request));
+      if (rejection) {
+        const response = this.errorResponse(request, rejection, trace);
+        if (rejection.kind === 'method-not-allowed') {
+          response.headers.set('Allow', filter.allowedMethods!.join(', '));
         }
+        return response;
       }
+      request = limitRequestBody(request, filter.maxBodySize, () => {
+        bodyTooLarge = true;
+      });
 
-      // Get healthy backends
-      const healthyBackends = await this.getHealthyBackends();
-      if (healthyBackends.length === 0) {
-        return createErrorResponse('All backends unavailable', 503);
-      }
+      // Verified identity replaces any identity headers the client sent
+      const auth = preflight ? null : AuthGateway.forRoute(this.config, route.route);
+      const result = auth ? await new AuthGateway(auth, this.env).authenticate(request) : null;
+      const identity = result?.authenticated && result.subject ? `${result.method}:${result.subject}` : undefined;
 
-      // Proxy request with fallback
-      const response = await this.proxyRequestWithFallback(request, requestId, healthyBackends);
+      // Throttle before any cache or upstream work; failed logins count against the client IP
+      this.rateLimit = await this.rateLimits.check(request, route, identity);
+      if (this.rateLimit && !this.rateLimit.decision.allowed) {
+        return this.errorResponse(request, new ProxyError('rate-limited', 'Too many requests'), trace);
+      }
 
-      // Update metrics
-      const backendUrl = response.headers.get('X-Backend-URL') || '';
-      const duration = Date.now() - startTime;
-      this.updateMetrics(backendUrl, duration, response.ok);
+      if (result && !result.authenticated) {
+        const response = this.errorResponse(request, new ProxyError('unauthorized', result.error), trace);
+        response.headers.set('WWW-Authenticate', result.challenge);
+        return response;
+      }
+      request = result
+        ? result.request
+        : new Request(request, { headers: AuthGateway.withoutIdentity(request.headers, this.config.auth) });
+
+      // Canary splits and forced versions replace the pool; rate limits above used the matched route
+      const release = ReleaseRouter.forRoute(this.config, route.route);
+      if (release) {
+        route = release.assign(this.parseRequest(request), route, this.router);
+        this.accessLog.setSplit(route.split);
+      }
 
-      // Cache successful responses
-      if (this.shouldCacheResponse(request, response)) {
-        await this.cacheResponse(request, response);
+      await this.loadState();
+
+      // Cacheable requests go through the HTTP cache, which calls upstream on a miss or revalidation;
+      // only the stable version is cached so canary responses never reach other clients
+      const httpCache = new HttpCache(this.config, route.route, this.cache, this.ctx);
+      if ((route.split ?? STABLE_SPLIT) === STABLE_SPLIT && httpCache.isCacheable(request)) {
+        const resolved = route;
+        const response = await httpCache.handle(request, upstreamRequest => {
+          return this.forward(upstreamRequest, trace, resolved, release).finally(() => this.flushUpdates());
+        });
+        this.recordCacheStatus(response);
+        return response;
       }
 
-      return response;
+      return await this.forward(request, trace, route, release);
 
     } catch (error) {
       const duration = Date.now() - startTime;
-      console.error(`[${requestId}] Request failed after ${duration}ms:`, error);
+      console.error(`[${trace.requestId}] Request failed after ${duration}ms:`, error);
+      this.accessLog.setError(error as Error);
+
+      // The upstream fetch may wrap the body stream's error in its own
+      const failure = bodyTooLarge
+        ? new ProxyError('too-large', 'Request body exceeds the route limit')
+        : ProxyError.from(error);
+      return this.errorResponse(request, failure, trace);
+    } finally {
+      this.flushUpdates();
+    }
+  }
 
-      return createErrorResponse(
-        'Service temporarily unavailable',
-        getErrorStatus(error as Error)
-      );
+  private async forward(
+    request: Request,
+    trace: TraceContext,
+    route: ResolvedRoute,
+    release: ReleaseRouter | null
+  ): Promise<Response> {
+    const startedAt = Date.now();
+
+    // Get healthy backends from the shared state snapshot
+    const healthyBackends = this.getHealthyBackends(route.pool.backends);
+    if (healthyBackends.length === 0) {
+      this.recordSplit(route, { success: false, duration: 0, status: 503 });
+      return this.errorResponse(request, new ProxyError('circuit-open', 'All backends unavailable'), trace);
+    }
+
+    // Sticky sessions follow the recorded backend while it is still healthy
+    const affinity = this.createAffinity(route);
+    const preferred = await affinity?.resolve(request, healthyBackends);
+
+    // One deadline covers buffering, every backend and every retry
+    const deadline = Deadline.after(route.route?.timeout ?? this.config.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT);
+    this.retryBudget.recordRequest();
+
+    // Buffer the body so it can be replayed against another backend
+    const retryPolicy = new RetryPolicy({ ...this.config.retry, ...route.route?.retry }, this.config.retryAttempts);
+    const body = await bufferRequestBody(request, retryPolicy.bufferLimit);
+
+    // A sampled copy goes to the shadow pool in the background; its response is thrown away
+    const mirrorPool = release?.mirrorPool(request);
+    if (mirrorPool && body.replayable) {
+      this.ctx.waitUntil(this.mirror(request, trace, route, mirrorPool, release!.mirrorName, body));
     }
+
+    // Proxy request with fallback
+    let result: ProxyResult;
+    try {
+      result = await this.proxyRequestWithFallback(request, trace, healthyBackends, route, {
+        body,
+        retryPolicy,
+        deadline,
+        preferred
+      });
+    } catch (error) {
+      this.recordSplit(route, { success: false, duration: Date.now() - startedAt });
+      throw error;
+    }
+
+    const status = result.response.status;
+    this.recordSplit(route, { success: status < 500, duration: Date.now() - startedAt, status });
+
+    return affinity
+      ? await affinity.apply(request, result.response, result.backend)
+      : result.response;
   }
 
   private async proxyRequestWithFallback(
     request: Request,
-    requestId: string,
-    backends: BackendConfig[]
-  ): Promise<Response> {
+    trace: TraceContext,
+    backends: BackendConfig[],
+    route: ResolvedRoute,
+    attempt: AttemptOptions
+  ): Promise<ProxyResult> {
     let lastError: Error | null = null;
+    let lastFailure: { response: Response; backend: BackendConfig } | null = null;
     const requestInfo = this.parseRequest(request);
+    const { body, retryPolicy, deadline, preferred } = attempt;
+    const maxAttempts = Math.min(backends.length, retryPolicy.maxBackends);
+    const hedging = HedgePolicy.forRoute(this.config, route.route);
+    let canHedge = !!hedging?.applies(request);
+    let remaining = backends;
+    let launched = 0;
+    let hedges = 0;
+    let exhausted = false;
+    const inFlight: InFlightAttempt[] = [];
+
+    // Fallbacks and hedges are retries too: they spend the shared budget once a backend was picked
+    const launch = async (retry: boolean): Promise<boolean> => {
+      const selection = await this.selectAvailableBackend(remaining, requestInfo, route, preferred);
+      if (!selection) return false;
+      if (retry && !this.retryBudget.tryAcquire()) {
+        if (selection.trial) this.releaseTrial(selection.backend);
+        return false;
+      }
 
-    // Try up to 3 different backends
-    for (let i = 0; i < Math.min(backends.length, 3); i++) {
-      const backend = this.loadBalancer.selectBackend(backends, requestInfo, this.metrics);
-
-      try {
-        const response = await this.proxyService.proxyRequest(request, backend);
-
-        if (response.ok) {
-          this.markBackendHealthy(backend.url);
-
-          // Create new response with modifiable headers
-          const newResponse = new Response(response.body, {
-            status: response.status,
-            statusText: response.statusText,
-            headers: new Headers(response.headers)
-          });
-
-          // Add backend info to response headers
-          newResponse.headers.set('X-Backend-URL', backend.url);
-          newResponse.headers.set('X-Backend-Region', backend.region);
-
-          return newResponse;
-        } else if (response.status >= 500) {
-          // Server error, try next backend
-          this.markBackendUnhealthy(backend.url);
-          lastError = new Error(`Backend returned ${response.status}`);
-          continue;
-        } else {
-          // Client error, return directly but still add headers
-          const newResponse = new Response(response.body, {
-            status: response.status,
-            statusText: response.statusText,
-            headers: new Headers(response.headers)
-          });
+      remaining = remaining.filter(candidate => candidate.url !== selection.backend.url);
+      // Arriving at a fallback or hedge backend counts as a retry against it in metrics
+      inFlight.push(this.startAttempt(request, trace, route, attempt, selection, launched > 0 ? 1 : 0));
+      launched++;
+      return true;
+    };
 
-          newResponse.headers.set('X-Backend-URL', backend.url);
-          newResponse.headers.set('X-Backend-Region', backend.region);
+    // Try up to maxBackends different backends, never the same one twice
+    while (true) {
+      if (inFlight.length === 0) {
+        if (exhausted || launched >= maxAttempts) break;
+        if (launched > 0 && deadline.expired()) break;
+        if (!(await launch(launched > 0))) break;
+      }
+
+      // A hedge goes out when the newest attempt has been slower than its backend usually is
+      const newest = inFlight[inFlight.length - 1];
+      const hedgeDelay = canHedge && !exhausted && hedges < hedging!.maxHedges && launched < maxAttempts && remaining.length > 0
+        ? hedging!.delayFor(newest.backend, this.state.getMetrics())
+        : null;
+      const settled = await this.nextSettled(
+        inFlight,
+        hedgeDelay === null ? null : Math.max(0, hedgeDelay - (Date.now() - newest.startedAt))
+      );
 
-          return newResponse;
+      if (!settled) {
+        if (!deadline.expired() && await launch(true)) {
+          hedges++;
+          this.accessLog.recordHedge();
+        } else {
+          canHedge = false;
         }
-      } catch (error) {
-        lastError = error as Error;
-        this.markBackendUnhealthy(backend.url);
+        continue;
+      }
 
-        // If network error and more backends available, continue
-        if (isNetworkError(error as Error) && i < Math.min(backends.length, 3) - 1) {
-          continue;
+      inFlight.splice(inFlight.indexOf(settled.attempt), 1);
+      const { attempt: current, response, error, duration, retries } = settled;
+      const { backend, trial, fallback } = current;
+
+      if (response && response.status < 500) {
+        // Success, client error or WebSocket handshake, return directly
+        this.recordOutcome(backend, { success: true, duration, trial, status: response.status }, retries, fallback);
+        this.cancelAttempts(inFlight, hedges > 0 ? backend : undefined);
+        lastFailure?.response.body?.cancel().catch(() => {});
+        return this.finishResponse(request, response, backend, route, trace);
+      }
+
+      if (response) {
+        this.recordOutcome(backend, { success: false, duration, trial, status: response.status }, retries, fallback);
+
+        // Server error, try next backend; a request that must not be re-sent gets the upstream answer
+        if (!retryPolicy.canRetry(request, body, 'status')) {
+          this.cancelAttempts(inFlight);
+          return this.finishResponse(request, response, backend, route, trace);
         }
-        break;
+        // Kept so the client gets a real upstream answer if no other backend does better
+        lastFailure?.response.body?.cancel().catch(() => {});
+        lastFailure = { response, backend };
+        continue;
+      }
+
+      lastError = error!;
+      this.recordOutcome(backend, { success: false, duration, trial }, retries, fallback);
+
+      // If network error, more backends available and the request can be re-sent, continue;
+      // otherwise only attempts that are already in flight can still answer
+      const failure = ProxyService.classifyError(error!);
+      if (!isNetworkError(error!) || launched >= maxAttempts || !retryPolicy.canRetry(request, body, failure)) {
+        exhausted = true;
       }
     }
 
-    throw lastError || new Error('All backends failed');
+    // Every backend failed; the most recent 5xx is passed on as the backend sent it
+    if (lastFailure) {
+      return this.finishResponse(request, lastFailure.response, lastFailure.backend, route, trace);
+    }
+
+    // Nothing was attempted when every remaining backend is waiting for a half-open trial slot
+    throw lastError || new ProxyError('circuit-open', 'All backends failed');
   }
 
-  private async getHealthyBackends(): Promise<BackendConfig[]> {
-    const now = Date.now();
+  private startAttempt(
+    request: Request,
+    trace: TraceContext,
+    route: ResolvedRoute,
+    options: AttemptOptions,
+    selection: { backend: BackendConfig; trial: boolean },
+    fallback: number
+  ): InFlightAttempt {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    let retries = 0;
+
+    const result = this.proxyService.proxyRequest(request, selection.backend, {
+      upstreamPath: route.upstreamPath,
+      body: options.body,
+      retryPolicy: options.retryPolicy,
+      retryBudget: this.retryBudget,
+      deadline: options.deadline,
+      trace,
+      route: route.route,
+      routeName: route.route?.name ?? route.poolName,
+      onRetry: () => retries++,
+      signal: controller.signal
+    }).then(
+      response => ({ response, duration: Date.now() - startedAt, retries }),
+      error => ({ error: error as Error, duration: Date.now() - startedAt, retries })
+    );
+
+    return { ...selection, fallback, startedAt, controller, result };
+  }
+
+  // The first attempt to finish, or null when `timeout` elapses first
+  private async nextSettled(inFlight: InFlightAttempt[], timeout: number | null): Promise<SettledAttempt | null> {
+    const races: Promise<SettledAttempt | null>[] = inFlight.map(attempt => {
+      return attempt.result.then(result => ({ ...result, attempt }));
+    });
 
-    // Periodic health checks
-    for (const backend of this.config.backends) {
-      const health = this.healthStatus.get(backend.url);
-      if (health && now - health.lastCheck > this.config.healthCheckInterval) {
-        await this.checkBackendHealth(backend);
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    if (timeout !== null) {
+      races.push(new Promise(resolve => {
+        timeoutId = setTimeout(() => resolve(null), timeout);
+      }));
+    }
+
+    try {
+      return await Promise.race(races);
+    } finally {
+      if (timeoutId !== null) clearTimeout(timeoutId);
+    }
+  }
+
+  // Abort attempts that are no longer needed; with a hedge `winner`, each of them lost the race
+  private cancelAttempts(inFlight: InFlightAttempt[], winner?: BackendConfig): void {
+    if (winner) {
+      this.pendingHedges.push({ url: winner.url, won: true });
+    }
+
+    for (const attempt of inFlight) {
+      attempt.controller.abort();
+      // A response that arrives anyway is discarded without reading it
+      attempt.result.then(result => result.response?.body?.cancel().catch(() => {}));
+      if (attempt.trial) {
+        this.releaseTrial(attempt.backend);
+      }
+      if (winner) {
+        this.pendingHedges.push({ url: attempt.backend.url, won: false });
       }
     }
+  }
 
-    return this.config.backends.filter((backend: BackendConfig) => {
-      const health = this.healthStatus.get(backend.url);
-      return health?.isHealthy !== false;
-    });
+  // A trial slot whose attempt never ran to an outcome goes back to the circuit unused
+  private releaseTrial(backend: BackendConfig): void {
+    const update = { url: backend.url, success: false, duration: 0, trial: true, cancelled: true };
+    this.state.applyUpdates([update]);
+    this.pendingUpdates.push(update);
   }
 
-  private async checkBackendHealth(backend: BackendConfig): Promise<void> {
-    const health = this.healthStatus.get(backend.url);
-    if (!health) return;
+  private async mirror(
+    request: Request,
+    trace: TraceContext,
+    route: ResolvedRoute,
+    poolName: string,
+    split: string,
+    body: RequestBody
+  ): Promise<void> {
+    const startedAt = Date.now();
+    const update: SplitUpdate = { route: this.splitLabel(route), split, success: false, duration: 0 };
 
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-      const response = await fetch(`${backend.url}/health`, {
-        method: 'HEAD',
-        signal: controller.signal
-      });
+      const pool = this.router.getPool(poolName);
+      const backends = this.getHealthyBackends(pool.backends);
+      if (backends.length === 0) return;
+
+      const backend = this.loadBalancer.selectBackend(
+        backends,
+        this.parseRequest(request),
+        this.state.getMetrics(),
+        pool.loadBalancing
+      );
 
-      clearTimeout(timeoutId);
+      // Only the method, URL and headers are read from the copy; the buffered body is sent separately
+      const headers = new Headers(request.headers);
+      headers.set(MIRROR_HEADER, '1');
+      const response = await this.proxyService.proxyRequest(
+        new Request(request.url, { method: request.method, headers }),
+        backend,
+        {
+          upstreamPath: route.upstreamPath,
+          body,
+          retryPolicy: new RetryPolicy({ attempts: 1, maxBackends: 1 }, 1),
+          trace,
+          route: route.route,
+          routeName: route.route?.name ?? route.poolName
+        }
+      );
+      await response.body?.cancel();
 
-      if (response.ok) {
-        health.isHealthy = true;
-        health.consecutiveFailures = 0;
-      } else {
-        health.consecutiveFailures++;
-        health.isHealthy = health.consecutiveFailures < this.config.circuitBreakerThreshold;
-      }
+      update.success = response.status < 500;
+      update.status = response.status;
     } catch (error) {
-      health.consecutiveFailures++;
-      health.isHealthy = health.consecutiveFailures < this.config.circuitBreakerThreshold;
+      console.warn(`[${trace.requestId}] Mirror request to pool ${poolName} failed:`, error);
     }
 
-    health.lastCheck = Date.now();
-    this.healthStatus.set(backend.url, health);
+    update.duration = Date.now() - startedAt;
+    await this.coordinator.report({ updates: [], splits: [update] }).catch(error => {
+      console.error('Coordinator report failed:', error);
+    });
   }
 
-  private markBackendHealthy(url: string): void {
-    const health = this.healthStatus.get(url);
-    if (health) {
-      health.isHealthy = true;
-      health.consecutiveFailures = 0;
-    }
+  // Splits are reported under the matched route, not the split's pool
+  private splitLabel(route: ResolvedRoute): string {
+    return route.route?.name ?? route.route?.pool ?? DEFAULT_POOL;
   }
 
-  private markBackendUnhealthy(url: string): void {
-    const health = this.healthStatus.get(url);
-    if (health) {
-      health.consecutiveFailures++;
-      health.isHealthy = health.consecutiveFailures < this.config.circuitBreakerThreshold;
-    }
+  private recordSplit(route: ResolvedRoute, outcome: Omit<SplitUpdate, 'route' | 'split'>): void {
+    if (!route.split) return;
+    this.pendingSplits.push({ ...outcome, route: this.splitLabel(route), split: route.split });
   }
 
-  private updateMetrics(backendUrl: string, duration: number, success: boolean): void {
-    const metrics = this.metrics.get(backendUrl);
-    if (metrics) {
-      metrics.requests++;
-      metrics.totalTime += duration;
-      if (!success) {
-        metrics.errors++;
-      }
+  private async finishResponse(
+    request: Request,
+    response: Response,
+    backend: BackendConfig,
+    route: ResolvedRoute,
+    trace: TraceContext
+  ): Promise<ProxyResult> {
+    const variables = Transformer.variables(request, backend, trace, route.route?.name ?? route.poolName);
+    const transformed = await Transformer.forBackend(this.config, route.route, backend)
+      .applyResponse(this.errorPages.mask(request, response, trace.requestId), request, backend, route.route, variables);
+
+    // Backend hostnames are internal; only expose them when asked to, or in development
+    if (!(this.config.exposeBackendHeaders ?? this.env.ENVIRONMENT === 'development')) {
+      return { response: transformed, backend };
     }
 
-    const health = this.healthStatus.get(backendUrl);
-    if (health) {
-      health.avgResponseTime = (health.avgResponseTime + duration) / 2;
+    const newResponse = copyResponse(transformed);
+    newResponse.headers.set('X-Backend-URL', backend.url);
+    newResponse.headers.set('X-Backend-Region', backend.region);
+    if (route.split) {
+      newResponse.headers.set('X-Backend-Split', route.split);
     }
+
+    return { response: newResponse, backend };
   }
 
-  private async getCachedResponse(request: Request): Promise<Response | null> {
-    try {
-      return (await this.cache.match(request)) || null;
-    } catch (error) {
+  private errorResponse(request: Request, error: ProxyError, trace: TraceContext): Response {
+    return this.errorPages.respond(request, error, trace.requestId);
+  }
+
+  private createAffinity(route: ResolvedRoute): SessionAffinity | null {
+    const affinity = route.pool.loadBalancing?.affinity;
+    if (!affinity) return null;
+
+    if (!this.env.AFFINITY_SECRET) {
+      console.warn(`Session affinity for pool ${route.poolName} requires AFFINITY_SECRET; ignoring`);
       return null;
     }
+
+    return new SessionAffinity(affinity, route.poolName, this.env.AFFINITY_SECRET);
   }
 
-  private shouldCacheResponse(request: Request, response: Response): boolean {
-    if (!this.config.enableCaching || request.method !== 'GET' || !response.ok) {
-      return false;
-    }
+  private async loadState(): Promise<void> {
+    const snapshot = await this.coordinator.getSnapshot();
+    this.state = new BackendStateStore(this.config, snapshot);
+  }
+
+  // Drained backends are skipped like unhealthy ones
+  private getHealthyBackends(backends: BackendConfig[]): BackendConfig[] {
+    const drained = new Set<string>(this.config.drained || []);
+    return backends.filter(backend => !drained.has(backend.url) && this.state.isAvailable(backend.url));
+  }
+
+  // Pick a backend, skipping half-open circuits whose trial slots are taken
+  private async selectAvailableBackend(
+    backends: BackendConfig[],
+    requestInfo: RequestInfo,
+    route: ResolvedRoute,
+    preferred?: BackendConfig
+  ): Promise<{ backend: BackendConfig; trial: boolean } | null> {
+    let candidates = backends;
+
+    while (candidates.length > 0) {
+      const backend = this.loadBalancer.selectBackend(
+        candidates,
+        requestInfo,
+        this.state.getMetrics(),
+        route.pool.loadBalancing,
+        preferred?.url
+      );
+      if (!this.state.requiresTrial(backend.url)) {
+        return { backend, trial: false };
+      }
+
+      if (await this.coordinator.acquireTrial(backend.url)) {
+        return { backend, trial: true };
+      }
 
-    const cacheControl = response.headers.get('cache-control');
-    if (cacheControl?.includes('no-cache') || cacheControl?.includes('private')) {
-      return false;
+      candidates = candidates.filter(candidate => candidate.url !== backend.url);
     }
 
-    const contentType = response.headers.get('content-type') || '';
-    return contentType.includes('application/json') ||
-           contentType.includes('text/') ||
-           contentType.includes('application/xml');
+    return null;
   }
 
-  private async cacheResponse(request: Request, response: Response): Promise<void> {
-    try {
-      const responseToCache = response.clone();
-      responseToCache.headers.set('Cache-Control', `max-age=${this.config.cacheMaxAge}`);
-      responseToCache.headers.set('X-Cached-At', new Date().toISOString());
+  // Apply locally for the rest of this request and queue for the coordinator
+  private recordOutcome(
+    backend: BackendConfig,
+    outcome: Omit<BackendUpdate, 'url' | 'retries'>,
+    retries: number,
+    fallback: number
+  ): void {
+    const update = { ...outcome, url: backend.url, retries: retries + fallback };
+    this.state.applyUpdates([update]);
+    this.pendingUpdates.push(update);
+    this.accessLog.recordAttempt(backend, outcome.duration, retries, outcome.status);
+  }
 
-      await this.cache.put(request, responseToCache);
-    } catch (error) {
-      // Ignore cache errors
+  private recordCacheStatus(response: Response): void {
+    const status = response.headers.get('X-Cache')?.toLowerCase();
+    if (status === 'hit' || status === 'miss' || status === 'stale') {
+      this.pendingCache = { [status]: 1 };
+      this.accessLog.setCacheStatus(status.toUpperCase());
     }
   }
 
-  private async isRequestTooLarge(request: Request): Promise<boolean> {
-    const contentLength = request.headers.get('content-length');
-    return contentLength ? parseInt(contentLength) > 10 * 1024 * 1024 : false; // 10MB
+  private flushUpdates(): void {
+    if (this.pendingUpdates.length === 0 && !this.pendingCache &&
+        this.pendingHedges.length === 0 && this.pendingSplits.length === 0) return;
+
+    const report = {
+      updates: this.pendingUpdates,
+      cache: this.pendingCache,
+      hedges: this.pendingHedges.length > 0 ? this.pendingHedges : undefined,
+      splits: this.pendingSplits.length > 0 ? this.pendingSplits : undefined
+    };
+    this.pendingUpdates = [];
+    this.pendingCache = undefined;
+    this.pendingHedges = [];
+    this.pendingSplits = [];
+    this.ctx.waitUntil(this.coordinator.report(report).catch(error => {
+      console.error('Coordinator report failed:', error);
+    }));
   }
 
   private parseRequest(request: Request): RequestInfo {
     const url = new URL(request.url);
+    const cf = request.cf as IncomingRequestCfProperties | undefined;
+    const coordinate = (value: unknown) => {
+      const parsed = parseFloat(String(value));
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
     return {
       method: request.method,
       path: url.pathname + url.search,
       clientIP: request.headers.get('CF-Connecting-IP') || 'unknown',
       country: request.headers.get('CF-IPCountry') || 'unknown',
-      userAgent: request.headers.get('User-Agent') || 'unknown'
+      colo: cf?.colo,
+      continent: cf?.continent,
+      latitude: coordinate(cf?.latitude),
+      longitude: coordinate(cf?.longitude),
+      userAgent: request.headers.get('User-Agent') || 'unknown',
+      headers: request.headers
     };
   }
-
-  // Get runtime metrics for monitoring
-  getMetrics(): Record<string, any> {
-    const result: Record<string, any> = {};
-
-    for (const [url, metrics] of this.metrics.entries()) {
-      const health = this.healthStatus.get(url);
-      result[url] = {
-        requests: metrics.requests,
-        errors: metrics.errors,
-        errorRate: metrics.requests > 0 ? metrics.errors / metrics.requests : 0,
-        avgResponseTime: metrics.requests > 0 ? metrics.totalTime / metrics.requests : 0,
-        isHealthy: health?.isHealthy ?? false,
-        consecutiveFailures: health?.consecutiveFailures ?? 0
-      };
-    }
-
-    return result;
-  }
 }
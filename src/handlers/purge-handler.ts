@@ -0,0 +1,120 @@
+import type { Env } from '../types';
+import { ConfigStore } from '../config/config-store';
+import { ErrorPages } from '../services/error-pages';
+import { HttpCache } from '../services/http-cache';
+import { Router } from '../services/router';
+import { ProxyError } from '../utils/errors';
+import { getBearerToken } from '../utils/helpers';
+import { timingSafeEqual } from '../utils/crypto';
+
+interface PurgeRequest {
+  urls?: string[];
+  tags?: string[];
+}
+
+const isUrl = (value: string): boolean => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// POST { "urls": [...], "tags": [...] } with `Authorization: Bearer <PURGE_TOKEN>`
+export class PurgeHandler {
+  constructor(private env: Env, private ctx: ExecutionContext) {}
+
+  async handle(request: Request): Promise<Response> {
+    if (!this.env.PURGE_TOKEN) {
+      return ErrorPages.respondTo(request, new ProxyError('not-found', 'Not found'));
+    }
+    if (request.method !== 'POST') {
+      const response = ErrorPages.respondTo(request, new ProxyError('method-not-allowed', 'Method not allowed'));
+      response.headers.set('Allow', 'POST');
+      return response;
+    }
+
+    const token = getBearerToken(request);
+    if (!token || !timingSafeEqual(token, this.env.PURGE_TOKEN)) {
+      return ErrorPages.respondTo(request, new ProxyError('unauthorized', 'Unauthorized'));
+    }
+
+    let purge: PurgeRequest;
+    try {
+      purge = await request.json<PurgeRequest>();
+    } catch (error) {
+      return ErrorPages.respondTo(request, new ProxyError('bad-request', 'Invalid JSON body'));
+    }
+
+    const urls = purge.urls || [];
+    const tags = purge.tags || [];
+    const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+    if (!isStringList(urls) || !isStringList(tags) || (urls.length === 0 && tags.length === 0)) {
+      const message = 'Provide a non-empty "urls" or "tags" string array';
+      return ErrorPages.respondTo(request, new ProxyError('bad-request', message));
+    }
+
+    // Checked up front so a bad entry fails the whole request before anything is purged
+    const invalid = urls.find(url => !isUrl(url));
+    if (invalid !== undefined) {
+      return ErrorPages.respondTo(request, new ProxyError('bad-request', `Not a valid URL: "${invalid}"`));
+    }
+
+    const zoneConfigured = !!(this.env.CF_ZONE_ID && this.env.CF_API_TOKEN);
+    if (tags.length > 0 && !zoneConfigured) {
+      return ErrorPages.respondTo(request, new ProxyError('bad-request', 'Tag purge requires CF_ZONE_ID and CF_API_TOKEN'));
+    }
+
+    try {
+      // Purge this colo directly, and every colo through the zone API when credentials exist
+      const config = await ConfigStore.load(this.env);
+      const router = new Router(config);
+      const keys: string[] = [];
+      let deleted = 0;
+
+      for (const url of urls) {
+        const target = new Request(url);
+        const httpCache = new HttpCache(config, router.resolve(target).route, caches.default, this.ctx);
+        keys.push(httpCache.cacheKey(target).url);
+        deleted += await httpCache.purge([url]);
+      }
+
+      if (zoneConfigured && keys.length > 0) {
+        await this.purgeZone({ files: keys });
+      }
+      if (tags.length > 0) {
+        await this.purgeZone({ tags });
+      }
+
+      return new Response(JSON.stringify({
+        purged: { urls: urls.length, tags: tags.length },
+        deletedLocally: deleted,
+        global: zoneConfigured
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Cache purge failed:', error);
+      return ErrorPages.respondTo(request, new ProxyError('upstream', 'Cache purge failed', { cause: error }));
+    }
+  }
+
+  private async purgeZone(body: { files?: string[]; tags?: string[] }): Promise<void> {
+    const response = await fetch(
+      `https://api.cloudflare.com/client/v4/zones/${this.env.CF_ZONE_ID}/purge_cache`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.env.CF_API_TOKEN}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Zone purge returned ${response.status}`);
+    }
+  }
+}
@@ -1,55 +1,93 @@
-import type { Env } from './types';
+import type { Env, ProxyConfig, RouteConfig } from './types';
+import { ConfigStore } from './config/config-store';
 import { ProxyHandler } from './handlers/proxy-handler';
-import { addCorsHeaders, handleOptionsRequest } from './utils/cors';
+import { PurgeHandler } from './handlers/purge-handler';
+import { MetricsHandler } from './handlers/metrics-handler';
+import { AdminHandler, ADMIN_PREFIX } from './handlers/admin-handler';
+import { HealthChecker } from './services/health-checker';
+import { createCoordinator } from './services/coordinator';
+import { ErrorPages } from './services/error-pages';
+import { Router } from './services/router';
+import { CorsPolicy } from './utils/cors';
+import { ProxyError } from './utils/errors';
+import { withProxyHeader } from './utils/helpers';
+
+export { HealthCoordinator } from './durable-objects/health-coordinator';
+export { RateLimiter } from './durable-objects/rate-limiter';
+
+// The route a failed request was headed for, so its error page and CORS policy still apply
+const routeFor = (config: ProxyConfig, request: Request): RouteConfig | undefined => {
+  try {
+    return new Router(config).resolve(request).route;
+  } catch {
+    return undefined;
+  }
+};
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    // Handle preflight requests
-    if (request.method === 'OPTIONS') {
-      return handleOptionsRequest();
-    }
-
-    // Handle metrics endpoint
+    // Browsers ask for a favicon on every page; it never needs a backend
     const url = new URL(request.url);
     if (url.pathname === '/favicon.ico') {
       return new Response(null, { status: 204 });
     }
 
-    // Only expose metrics in development environment
-    if (url.pathname === '/metrics' && env.ENVIRONMENT === 'development') {
-      try {
-        const proxyHandler = new ProxyHandler(env);
-        const metrics = proxyHandler.getMetrics();
+    // Authenticated cache purge by URL or tag
+    if (url.pathname === '/__proxy/purge') {
+      const purgeHandler = new PurgeHandler(env, ctx);
+      return withProxyHeader(await purgeHandler.handle(request));
+    }
+
+    // Config versions and backend maintenance
+    if (url.pathname === ADMIN_PREFIX || url.pathname.startsWith(`${ADMIN_PREFIX}/`)) {
+      const adminHandler = new AdminHandler(env);
+      return withProxyHeader(await adminHandler.handle(request));
+    }
 
-        return addCorsHeaders(new Response(JSON.stringify(metrics, null, 2), {
-          headers: { 'Content-Type': 'application/json' }
-        }));
+    // Prometheus metrics; open in development, token or IP allowlist elsewhere
+    if (url.pathname === '/metrics') {
+      try {
+        const metricsHandler = new MetricsHandler(env);
+        return await metricsHandler.handle(request);
       } catch (error) {
-        return addCorsHeaders(new Response(JSON.stringify({
-          error: 'Failed to retrieve metrics',
-          message: error instanceof Error ? error.message : 'Unknown error'
-        }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' }
-        }));
+        console.error('Failed to retrieve metrics:', error);
+        return ErrorPages.respondTo(request, new ProxyError('internal', 'Failed to retrieve metrics', { cause: error }));
       }
     }
 
+    // Fail closed: with no valid config there is nowhere safe to send the request
+    let config;
+    try {
+      config = await ConfigStore.load(env);
+    } catch (error) {
+      console.error('Proxy configuration unavailable:', error);
+      const response = ErrorPages.respondTo(request, new ProxyError('config', 'Proxy configuration unavailable', { cause: error }));
+      response.headers.set('Retry-After', '30');
+      // Which origins may read responses is part of the missing config, so none are granted
+      return withProxyHeader(response);
+    }
+
     // Handle proxy requests
     try {
-      const proxyHandler = new ProxyHandler(env);
+      const proxyHandler = new ProxyHandler(env, ctx, config);
       const response = await proxyHandler.handleRequest(request);
-      return addCorsHeaders(response);
+      return withProxyHeader(response);
 
     } catch (error) {
       console.error('Proxy handler error:', error);
-      return addCorsHeaders(new Response(JSON.stringify({
-        error: 'Proxy configuration error',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      }));
+      const route = routeFor(config, request);
+      const response = ErrorPages.respondTo(request, new ProxyError('internal', 'Proxy error', { cause: error }), config, route);
+      return withProxyHeader(CorsPolicy.forRoute(config, route).apply(request, response));
+    }
+  },
+
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    try {
+      const config = await ConfigStore.load(env);
+      const healthChecker = new HealthChecker(config);
+      await healthChecker.run(createCoordinator(env, config));
+    } catch (error) {
+      console.error(`Scheduled health check failed (${controller.cron}):`, error);
     }
   }
 };
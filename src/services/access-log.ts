@@ -0,0 +1,65 @@
+import type { AccessLogEntry, BackendConfig, TraceContext } from '../types';
+
+// One JSON line per request, written once the response is ready
+export class AccessLog {
+  private entry: AccessLogEntry;
+  private startTime = Date.now();
+  private backendsTried = new Set<string>();
+  private written = false;
+
+  constructor(request: Request, trace: TraceContext) {
+    const url = new URL(request.url);
+    this.entry = {
+      timestamp: new Date(this.startTime).toISOString(),
+      requestId: trace.requestId,
+      traceId: trace.traceId,
+      method: request.method,
+      path: url.pathname,
+      country: request.headers.get('CF-IPCountry') || 'unknown',
+      attempts: 0,
+      fallbacks: 0,
+      hedges: 0
+    };
+  }
+
+  setRoute(name?: string): void {
+    this.entry.route = name;
+  }
+
+  setSplit(split?: string): void {
+    this.entry.split = split;
+  }
+
+  setCacheStatus(status: string): void {
+    this.entry.cacheStatus = status;
+  }
+
+  // `retries` are same-backend retries inside ProxyService; a new backend counts as a fallback
+  recordAttempt(backend: BackendConfig, latency: number, retries: number, status?: number): void {
+    this.backendsTried.add(backend.url);
+    this.entry.backend = backend.url;
+    this.entry.region = backend.region;
+    this.entry.attempts += 1 + retries;
+    this.entry.fallbacks = this.backendsTried.size - 1;
+    this.entry.upstreamStatus = status;
+    this.entry.upstreamLatency = latency;
+  }
+
+  recordHedge(): void {
+    this.entry.hedges++;
+  }
+
+  setError(error: Error): void {
+    this.entry.error = error.message;
+  }
+
+  // Background cache revalidation may finish after the response; it is not logged twice
+  write(status: number): void {
+    if (this.written) return;
+    this.written = true;
+
+    this.entry.status = status;
+    this.entry.duration = Date.now() - this.startTime;
+    console.log(JSON.stringify(this.entry));
+  }
+}
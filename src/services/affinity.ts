@@ -0,0 +1,73 @@
+import type { AffinityConfig, BackendConfig } from '../types';
+import { copyResponse, getCookie, hashString } from '../utils/helpers';
+import { hmacSign, timingSafeEqual } from '../utils/crypto';
+
+const DEFAULT_COOKIE_NAME = '__proxy_affinity';
+const DEFAULT_HEADER_NAME = 'X-Proxy-Affinity';
+const DEFAULT_TTL = 3600;
+
+// Tokens are `<backend id>.<signature>`; the id is a hash so backend hostnames never reach clients
+export class SessionAffinity {
+  private name: string;
+
+  constructor(
+    private config: AffinityConfig,
+    private poolName: string,
+    private secret: string
+  ) {
+    this.name = config.name || (config.mode === 'cookie' ? DEFAULT_COOKIE_NAME : DEFAULT_HEADER_NAME);
+  }
+
+  // Returns the backend recorded in a valid token, if it still belongs to the pool
+  async resolve(request: Request, backends: BackendConfig[]): Promise<BackendConfig | undefined> {
+    const token = this.readToken(request);
+    if (!token) return undefined;
+
+    const separator = token.lastIndexOf('.');
+    if (separator === -1) return undefined;
+
+    const id = token.slice(0, separator);
+    const expected = await this.sign(id);
+    if (!timingSafeEqual(token.slice(separator + 1), expected)) {
+      return undefined;
+    }
+
+    return backends.find(backend => this.backendId(backend) === id);
+  }
+
+  // Record the backend that actually served the request when it differs from the client's token
+  async apply(request: Request, response: Response, backend: BackendConfig): Promise<Response> {
+    const id = this.backendId(backend);
+    const token = `${id}.${await this.sign(id)}`;
+    if (this.readToken(request) === token) {
+      return response;
+    }
+
+    const newResponse = copyResponse(response);
+    if (this.config.mode === 'cookie') {
+      const ttl = this.config.ttl ?? DEFAULT_TTL;
+      newResponse.headers.append(
+        'Set-Cookie',
+        `${this.name}=${token}; Path=/; Max-Age=${ttl}; HttpOnly; Secure; SameSite=Lax`
+      );
+    } else {
+      newResponse.headers.set(this.name, token);
+    }
+
+    return newResponse;
+  }
+
+  private readToken(request: Request): string | null {
+    return this.config.mode === 'cookie'
+      ? getCookie(request.headers, this.name)
+      : request.headers.get(this.name);
+  }
+
+  private backendId(backend: BackendConfig): string {
+    return hashString(backend.url).toString(36);
+  }
+
+  private sign(id: string): Promise<string> {
+    return hmacSign(this.secret, `${this.poolName}:${id}`);
+  }
+}
@@ -0,0 +1,241 @@
+import type { AuthConfig, Env, JwtConfig, JwtKey, ProxyConfig, RouteConfig } from '../types';
+import { getBearerToken } from '../utils/helpers';
+import { timingSafeEqual } from '../utils/crypto';
+import { decodeJwt, verifyHs256, verifyRs256, type DecodedJwt } from '../utils/jwt';
+
+const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+const DEFAULT_CLAIM_HEADERS: Record<string, string> = { sub: 'X-Auth-Subject' };
+const AUTH_METHOD_HEADER = 'X-Auth-Method';
+const DEFAULT_CLOCK_SKEW = 60;
+const JWKS_TTL = 600000;
+const JWKS_MIN_REFRESH = 60000;
+
+export type AuthResult =
+  | { authenticated: true; request: Request; method: string; subject?: string }
+  | { authenticated: false; error: string; challenge: string };
+
+interface ApiKey {
+  name: string;
+  key: string;
+}
+
+// JWKS documents are cached per isolate; an unknown `kid` triggers an early refresh at most once a minute
+let jwksCache = new Map<string, { keys: JwtKey[]; fetchedAt: number }>();
+
+export class AuthGateway {
+  constructor(private config: AuthConfig, private env: Env) {}
+
+  // Routes inherit the global policy unless they set their own or opt out with `auth: false`
+  static forRoute(config: ProxyConfig, route?: RouteConfig): AuthConfig | null {
+    if (route?.auth === false) return null;
+    return route?.auth ?? config.auth ?? null;
+  }
+
+  // An API key header is checked when present, otherwise a bearer JWT
+  async authenticate(request: Request): Promise<AuthResult> {
+    if (this.config.apiKeys) {
+      const header = this.config.apiKeys.header || DEFAULT_API_KEY_HEADER;
+      const presented = request.headers.get(header);
+      if (presented !== null) {
+        const match = this.parseApiKeys().find(entry => timingSafeEqual(entry.key, presented));
+        // The key itself is not passed on to backends
+        return match
+          ? this.accept(request, 'api-key', { sub: match.name }, header)
+          : this.reject('Invalid API key', 'invalid_token');
+      }
+    }
+
+    const token = this.config.jwt ? getBearerToken(request) : null;
+    if (token) {
+      return this.verifyJwt(request, token, this.config.jwt!);
+    }
+
+    return this.reject('Authentication required');
+  }
+
+  private async verifyJwt(request: Request, token: string, config: JwtConfig): Promise<AuthResult> {
+    const jwt = decodeJwt(token);
+    if (!jwt) {
+      return this.reject('Malformed token', 'invalid_token');
+    }
+
+    const algorithm = jwt.header.alg;
+    if (algorithm !== 'HS256' && algorithm !== 'RS256' || !this.allowedAlgorithms(config).includes(algorithm)) {
+      return this.reject(`Token algorithm ${algorithm} is not accepted`, 'invalid_token');
+    }
+
+    const valid = algorithm === 'HS256'
+      ? await verifyHs256(jwt, this.env.JWT_SECRET!)
+      : await this.verifyWithJwks(jwt, config);
+    if (!valid) {
+      return this.reject('Invalid token signature', 'invalid_token');
+    }
+
+    const claimError = this.checkClaims(jwt.payload, config);
+    if (claimError) {
+      return this.reject(claimError, 'invalid_token');
+    }
+
+    return this.accept(request, 'jwt', jwt.payload);
+  }
+
+  private allowedAlgorithms(config: JwtConfig): string[] {
+    if (config.algorithms) {
+      return config.algorithms.filter(alg => alg !== 'HS256' || !!this.env.JWT_SECRET);
+    }
+
+    const algorithms: string[] = [];
+    if (this.env.JWT_SECRET) algorithms.push('HS256');
+    if (config.jwks || config.jwksUrl) algorithms.push('RS256');
+    return algorithms;
+  }
+
+  private async verifyWithJwks(jwt: DecodedJwt, config: JwtConfig): Promise<boolean> {
+    const matching = (keys: JwtKey[]) => keys.filter(key => {
+      return key.kty === 'RSA' && (!jwt.header.kid || key.kid === jwt.header.kid);
+    });
+
+    let candidates = matching(await this.loadKeys(config, false));
+    if (candidates.length === 0 && config.jwksUrl) {
+      candidates = matching(await this.loadKeys(config, true));
+    }
+
+    for (const key of candidates) {
+      if (await verifyRs256(jwt, key)) return true;
+    }
+    return false;
+  }
+
+  private async loadKeys(config: JwtConfig, refresh: boolean): Promise<JwtKey[]> {
+    const inline = config.jwks?.keys || [];
+    if (!config.jwksUrl) return inline;
+
+    const cached = jwksCache.get(config.jwksUrl);
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+    if (cached && age < (refresh ? JWKS_MIN_REFRESH : JWKS_TTL)) {
+      return [...inline, ...cached.keys];
+    }
+
+    try {
+      const response = await fetch(config.jwksUrl, { headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`JWKS fetch returned ${response.status}`);
+      }
+      const document = await response.json<{ keys?: JwtKey[] }>();
+      const keys = Array.isArray(document.keys) ? document.keys : [];
+      jwksCache.set(config.jwksUrl, { keys, fetchedAt: Date.now() });
+      return [...inline, ...keys];
+    } catch (error) {
+      // Keep verifying with the last known keys while the identity provider is unreachable
+      if (cached) {
+        console.error('JWKS refresh failed, using cached keys:', error);
+        return [...inline, ...cached.keys];
+      }
+      throw new Error(`Unable to load JWKS from ${config.jwksUrl}: ${(error as Error).message}`);
+    }
+  }
+
+  private checkClaims(claims: Record<string, unknown>, config: JwtConfig): string | null {
+    const now = Math.floor(Date.now() / 1000);
+    const skew = config.clockSkew ?? DEFAULT_CLOCK_SKEW;
+
+    if (typeof claims.exp !== 'number') {
+      return 'Token has no expiry';
+    }
+    if (claims.exp + skew <= now) {
+      return 'Token has expired';
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - skew > now) {
+      return 'Token is not yet valid';
+    }
+
+    if (config.issuer !== undefined) {
+      const issuers = Array.isArray(config.issuer) ? config.issuer : [config.issuer];
+      if (typeof claims.iss !== 'string' || !issuers.includes(claims.iss)) {
+        return 'Token issuer is not accepted';
+      }
+    }
+
+    if (config.audience !== undefined) {
+      const expected = Array.isArray(config.audience) ? config.audience : [config.audience];
+      const actual = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!actual.some(aud => typeof aud === 'string' && expected.includes(aud))) {
+        return 'Token audience is not accepted';
+      }
+    }
+
+    return null;
+  }
+
+  // Claim headers are always replaced so clients cannot impersonate a verified caller
+  private accept(
+    request: Request,
+    method: string,
+    claims: Record<string, unknown>,
+    credentialHeader?: string
+  ): AuthResult {
+    const headers = AuthGateway.withoutIdentity(request.headers, this.config);
+    if (credentialHeader) {
+      headers.delete(credentialHeader);
+    }
+
+    headers.set(AUTH_METHOD_HEADER, method);
+    for (const [claim, header] of Object.entries(AuthGateway.claimHeaders(this.config))) {
+      const value = claims[claim];
+      if (value === undefined || value === null) continue;
+
+      headers.set(header, typeof value === 'string'
+        ? value
+        : Array.isArray(value) && value.every(item => typeof item === 'string')
+          ? value.join(',')
+          : JSON.stringify(value));
+    }
+
+    const subject = typeof claims.sub === 'string' ? claims.sub : undefined;
+    return { authenticated: true, request: new Request(request, { headers }), method, subject };
+  }
+
+  private reject(message: string, error?: string): AuthResult {
+    const challenge = error
+      ? `Bearer error="${error}", error_description="${message}"`
+      : 'Bearer';
+    return { authenticated: false, error: message, challenge };
+  }
+
+  // API_KEYS is a comma-separated list of `name:key` pairs; bare keys are named by position
+  private parseApiKeys(): ApiKey[] {
+    return (this.env.API_KEYS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map((entry, index) => {
+        const separator = entry.indexOf(':');
+        return separator === -1
+          ? { name: `key-${index + 1}`, key: entry }
+          : { name: entry.slice(0, separator), key: entry.slice(separator + 1) };
+      });
+  }
+
+  // Used on unauthenticated routes too, so identity headers only ever come from the gateway
+  static withoutIdentity(source: Headers, config?: AuthConfig): Headers {
+    const headers = new Headers(source);
+    headers.delete(AUTH_METHOD_HEADER);
+    for (const header of Object.values(AuthGateway.claimHeaders(config))) {
+      headers.delete(header);
+    }
+    return headers;
+  }
+
+  // The method header is stripped from every incoming request, so only the gateway can have set it
+  static isAuthenticated(headers: Headers): boolean {
+    return headers.has(AUTH_METHOD_HEADER);
+  }
+
+  private static claimHeaders(config?: AuthConfig): Record<string, string> {
+    return config?.jwt?.claimHeaders ?? DEFAULT_CLAIM_HEADERS;
+  }
+
+  static reset(): void {
+    jwksCache = new Map();
+  }
+}
@@ -0,0 +1,213 @@
+import type {
+  BackendHealth,
+  BackendMetrics,
+  BackendStateSnapshot,
+  BackendUpdate,
+  CacheCounters,
+  HealthCheckResult,
+  HedgeOutcome,
+  ProxyConfig,
+  SplitMetrics,
+  SplitUpdate,
+  StateReport,
+  StatusClass
+} from '../types';
+import { CircuitBreaker, createBackendHealth } from './circuit-breaker';
+import { createHistogram, observe } from '../utils/histogram';
+
+const EWMA_ALPHA = 0.3;
+
+// Health and metrics bookkeeping shared by the coordinator Durable Object and its local stand-in
+export class BackendStateStore {
+  private health = new Map<string, BackendHealth>();
+  private metrics = new Map<string, BackendMetrics>();
+  private cache: CacheCounters = { hit: 0, miss: 0, stale: 0 };
+  private splits = new Map<string, SplitMetrics>();
+
+  constructor(private config: ProxyConfig, snapshot?: BackendStateSnapshot) {
+    if (snapshot) {
+      const copy = structuredClone(snapshot);
+      // Entries persisted before the circuit breaker fields existed get defaults
+      for (const [url, health] of Object.entries(copy.health)) {
+        this.health.set(url, { ...createBackendHealth(), ...health });
+      }
+      for (const [url, metrics] of Object.entries(copy.metrics)) {
+        this.metrics.set(url, { ...createBackendMetrics(), ...metrics });
+      }
+      this.cache = { ...this.cache, ...copy.cache };
+      for (const [key, metrics] of Object.entries(copy.splits ?? {})) {
+        this.splits.set(key, metrics);
+      }
+    }
+  }
+
+  setConfig(config: ProxyConfig): void {
+    this.config = config;
+  }
+
+  applyReport(report: StateReport, now = Date.now()): void {
+    this.applyUpdates(report.updates, now);
+    if (report.cache) {
+      this.applyCacheCounts(report.cache);
+    }
+    if (report.hedges) {
+      this.applyHedges(report.hedges);
+    }
+    if (report.splits) {
+      this.applySplits(report.splits);
+    }
+  }
+
+  applyUpdates(updates: BackendUpdate[], now = Date.now()): void {
+    for (const update of updates) {
+      if (update.cancelled) {
+        CircuitBreaker.forBackend(update.url, this.config).onCancel(this.getOrCreateHealth(update.url), update.trial);
+        continue;
+      }
+
+      const metrics = this.getOrCreateMetrics(update.url);
+      metrics.requests++;
+      metrics.totalTime += update.duration;
+      metrics.ewmaLatency = metrics.requests === 1
+        ? update.duration
+        : EWMA_ALPHA * update.duration + (1 - EWMA_ALPHA) * metrics.ewmaLatency;
+      if (!update.success) {
+        metrics.errors++;
+      }
+      metrics.retries += update.retries ?? 0;
+      const statusClass = toStatusClass(update.status);
+      metrics.statusClasses[statusClass] = (metrics.statusClasses[statusClass] ?? 0) + 1;
+      observe(metrics.latencyHistogram, update.duration);
+
+      const health = this.getOrCreateHealth(update.url);
+      const breaker = CircuitBreaker.forBackend(update.url, this.config);
+      if (update.success) {
+        breaker.onSuccess(health, now, update.trial);
+      } else {
+        breaker.onFailure(health, now, update.trial);
+      }
+    }
+  }
+
+  applyCacheCounts(counts: Partial<CacheCounters>): void {
+    this.cache.hit += counts.hit ?? 0;
+    this.cache.miss += counts.miss ?? 0;
+    this.cache.stale += counts.stale ?? 0;
+  }
+
+  // Only the race result is counted here; the winner's request is reported as a normal update
+  applyHedges(outcomes: HedgeOutcome[]): void {
+    for (const outcome of outcomes) {
+      const metrics = this.getOrCreateMetrics(outcome.url);
+      if (outcome.won) {
+        metrics.hedgeWins++;
+      } else {
+        metrics.hedgeLosses++;
+      }
+    }
+  }
+
+  // One outcome per client request, keyed by route and split so canary and stable can be compared
+  applySplits(updates: SplitUpdate[]): void {
+    for (const update of updates) {
+      const key = `${update.route}/${update.split}`;
+      let metrics = this.splits.get(key);
+      if (!metrics) {
+        metrics = {
+          route: update.route,
+          split: update.split,
+          requests: 0,
+          errors: 0,
+          totalTime: 0,
+          statusClasses: {},
+          latencyHistogram: createHistogram()
+        };
+        this.splits.set(key, metrics);
+      }
+
+      metrics.requests++;
+      metrics.totalTime += update.duration;
+      if (!update.success) {
+        metrics.errors++;
+      }
+      const statusClass = toStatusClass(update.status);
+      metrics.statusClasses[statusClass] = (metrics.statusClasses[statusClass] ?? 0) + 1;
+      observe(metrics.latencyHistogram, update.duration);
+    }
+  }
+
+  applyHealthChecks(results: HealthCheckResult[]): void {
+    for (const result of results) {
+      const health = this.getOrCreateHealth(result.url);
+      CircuitBreaker.forBackend(result.url, this.config).onProbe(health, result.healthy, result.checkedAt);
+      health.lastCheck = result.checkedAt;
+    }
+  }
+
+  isAvailable(url: string, now = Date.now()): boolean {
+    const health = this.health.get(url);
+    return !health || CircuitBreaker.forBackend(url, this.config).allowsRequest(health, now);
+  }
+
+  requiresTrial(url: string, now = Date.now()): boolean {
+    const health = this.health.get(url);
+    return !!health && CircuitBreaker.forBackend(url, this.config).requiresTrial(health, now);
+  }
+
+  acquireTrial(url: string, now = Date.now()): boolean {
+    return CircuitBreaker.forBackend(url, this.config).tryAcquireTrial(this.getOrCreateHealth(url), now);
+  }
+
+  getHealth(): Map<string, BackendHealth> {
+    return this.health;
+  }
+
+  getMetrics(): Map<string, BackendMetrics> {
+    return this.metrics;
+  }
+
+  snapshot(): BackendStateSnapshot {
+    return {
+      health: Object.fromEntries(this.health),
+      metrics: Object.fromEntries(this.metrics),
+      cache: { ...this.cache },
+      splits: Object.fromEntries(this.splits)
+    };
+  }
+
+  private getOrCreateHealth(url: string): BackendHealth {
+    let health = this.health.get(url);
+    if (!health) {
+      health = createBackendHealth();
+      this.health.set(url, health);
+    }
+    return health;
+  }
+
+  private getOrCreateMetrics(url: string): BackendMetrics {
+    let metrics = this.metrics.get(url);
+    if (!metrics) {
+      metrics = createBackendMetrics();
+      this.metrics.set(url, metrics);
+    }
+    return metrics;
+  }
+}
+
+const createBackendMetrics = (): BackendMetrics => ({
+  requests: 0,
+  errors: 0,
+  totalTime: 0,
+  ewmaLatency: 0,
+  retries: 0,
+  hedgeWins: 0,
+  hedgeLosses: 0,
+  statusClasses: {},
+  latencyHistogram: createHistogram()
+});
+
+// Outcomes without a status never received a response from the backend
+const toStatusClass = (status?: number): StatusClass => {
+  if (status === undefined || status < 100 || status > 599) return 'error';
+  return `${Math.floor(status / 100)}xx` as StatusClass;
+};
@@ -0,0 +1,199 @@
+import type { BackendHealth, CircuitBreakerConfig, ProxyConfig } from '../types';
+import { ConfigLoader } from '../config/backends';
+
+const WINDOW_BUCKETS = 6;
+
+export const CIRCUIT_BREAKER_DEFAULTS: Required<Omit<CircuitBreakerConfig, 'failureThreshold'>> = {
+  openTimeout: 30000,
+  halfOpenMaxRequests: 1,
+  successThreshold: 2,
+  errorRateThreshold: 0.5,
+  errorRateWindow: 60000,
+  minimumRequests: 20,
+};
+
+export const createBackendHealth = (): BackendHealth => ({
+  isHealthy: true,
+  state: 'closed',
+  lastCheck: 0,
+  consecutiveFailures: 0,
+  openedAt: 0,
+  halfOpenInFlight: 0,
+  halfOpenSuccesses: 0,
+  lastTrialAt: 0,
+  probeSuccesses: 0,
+  probeFailures: 0,
+  window: []
+});
+
+interface ProbeThresholds {
+  healthy: number;
+  unhealthy: number;
+}
+
+// closed -> open on consecutive failures or error rate; open -> half-open after openTimeout;
+// half-open -> closed after successThreshold trial successes, back to open on any failure
+export class CircuitBreaker {
+  constructor(
+    private settings: Required<CircuitBreakerConfig>,
+    private probeThresholds: ProbeThresholds
+  ) {}
+
+  static forBackend(url: string, config: ProxyConfig): CircuitBreaker {
+    const backend = ConfigLoader.findBackend(config, url);
+    const settings = {
+      failureThreshold: config.circuitBreakerThreshold,
+      ...CIRCUIT_BREAKER_DEFAULTS,
+      ...backend?.circuitBreaker
+    };
+
+    return new CircuitBreaker(settings, {
+      healthy: backend?.healthCheck?.healthyThreshold ?? 1,
+      unhealthy: backend?.healthCheck?.unhealthyThreshold ?? settings.failureThreshold
+    });
+  }
+
+  refresh(health: BackendHealth, now: number): void {
+    if (health.state === 'open' && now - health.openedAt >= this.settings.openTimeout) {
+      this.transition(health, 'half-open', now);
+    }
+
+    // Release trial permits held by requests that never reported back
+    if (health.state === 'half-open' && health.halfOpenInFlight > 0 &&
+        now - health.lastTrialAt >= this.settings.openTimeout) {
+      health.halfOpenInFlight = 0;
+    }
+  }
+
+  allowsRequest(health: BackendHealth, now: number): boolean {
+    this.refresh(health, now);
+    return health.state !== 'open';
+  }
+
+  requiresTrial(health: BackendHealth, now: number): boolean {
+    this.refresh(health, now);
+    return health.state === 'half-open';
+  }
+
+  tryAcquireTrial(health: BackendHealth, now: number): boolean {
+    this.refresh(health, now);
+
+    if (health.state === 'closed') return true;
+    if (health.state === 'open' || health.halfOpenInFlight >= this.settings.halfOpenMaxRequests) {
+      return false;
+    }
+
+    health.halfOpenInFlight++;
+    health.lastTrialAt = now;
+    return true;
+  }
+
+  onSuccess(health: BackendHealth, now: number, trial = false): void {
+    this.releaseTrial(health, trial);
+    this.recordWindow(health, now, false);
+    health.consecutiveFailures = 0;
+
+    if (health.state === 'half-open' && trial) {
+      health.halfOpenSuccesses++;
+      if (health.halfOpenSuccesses >= this.settings.successThreshold) {
+        this.transition(health, 'closed', now);
+      }
+    }
+  }
+
+  onFailure(health: BackendHealth, now: number, trial = false): void {
+    this.releaseTrial(health, trial);
+    this.recordWindow(health, now, true);
+    health.consecutiveFailures++;
+
+    if (health.state === 'half-open') {
+      this.transition(health, 'open', now);
+    } else if (health.state === 'closed' && this.shouldTrip(health, now)) {
+      this.transition(health, 'open', now);
+    }
+  }
+
+  onCancel(health: BackendHealth, trial = false): void {
+    this.releaseTrial(health, trial);
+  }
+
+  // Probes can move an open circuit to half-open early but never close it directly
+  onProbe(health: BackendHealth, healthy: boolean, now: number): void {
+    this.refresh(health, now);
+
+    if (healthy) {
+      health.probeFailures = 0;
+      health.probeSuccesses++;
+      if (health.state === 'open' && health.probeSuccesses >= this.probeThresholds.healthy) {
+        this.transition(health, 'half-open', now);
+      }
+      return;
+    }
+
+    health.probeSuccesses = 0;
+    health.probeFailures++;
+    if (health.state === 'half-open' ||
+        (health.state === 'closed' && health.probeFailures >= this.probeThresholds.unhealthy)) {
+      this.transition(health, 'open', now);
+    }
+  }
+
+  private shouldTrip(health: BackendHealth, now: number): boolean {
+    if (health.consecutiveFailures >= this.settings.failureThreshold) {
+      return true;
+    }
+
+    const cutoff = now - this.settings.errorRateWindow;
+    let requests = 0;
+    let errors = 0;
+    for (const bucket of health.window) {
+      if (bucket.start >= cutoff) {
+        requests += bucket.requests;
+        errors += bucket.errors;
+      }
+    }
+
+    return requests >= this.settings.minimumRequests &&
+           errors / requests >= this.settings.errorRateThreshold;
+  }
+
+  private recordWindow(health: BackendHealth, now: number, failed: boolean): void {
+    const bucketSize = Math.max(1, Math.floor(this.settings.errorRateWindow / WINDOW_BUCKETS));
+    const start = now - (now % bucketSize);
+    const cutoff = now - this.settings.errorRateWindow;
+
+    health.window = health.window.filter(bucket => bucket.start >= cutoff);
+
+    let bucket = health.window.find(candidate => candidate.start === start);
+    if (!bucket) {
+      bucket = { start, requests: 0, errors: 0 };
+      health.window.push(bucket);
+    }
+
+    bucket.requests++;
+    if (failed) {
+      bucket.errors++;
+    }
+  }
+
+  private releaseTrial(health: BackendHealth, trial: boolean): void {
+    if (trial && health.halfOpenInFlight > 0) {
+      health.halfOpenInFlight--;
+    }
+  }
+
+  private transition(health: BackendHealth, state: BackendHealth['state'], now: number): void {
+    health.state = state;
+    health.isHealthy = state !== 'open';
+    health.halfOpenInFlight = 0;
+    health.halfOpenSuccesses = 0;
+
+    if (state === 'open') {
+      health.openedAt = now;
+      health.probeSuccesses = 0;
+    } else if (state === 'closed') {
+      health.consecutiveFailures = 0;
+      health.window = [];
+    }
+  }
+}
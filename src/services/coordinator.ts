@@ -0,0 +1,103 @@
+import type {
+  BackendStateSnapshot,
+  Env,
+  HealthCheckResult,
+  ProxyConfig,
+  StateReport
+} from '../types';
+import type { HealthCoordinator } from '../durable-objects/health-coordinator';
+import { BackendStateStore } from './backend-state';
+
+const COORDINATOR_NAME = 'global';
+const SNAPSHOT_TTL = 1000;
+
+export interface Coordinator {
+  getSnapshot(): Promise<BackendStateSnapshot>;
+  report(report: StateReport): Promise<void>;
+  recordHealthChecks(results: HealthCheckResult[]): Promise<void>;
+  acquireTrial(url: string): Promise<boolean>;
+}
+
+// Snapshots are cached briefly per isolate so a burst of requests costs one round trip
+let cachedSnapshot: { snapshot: BackendStateSnapshot; fetchedAt: number } | null = null;
+
+export class DurableObjectCoordinator implements Coordinator {
+  private stub: DurableObjectStub<HealthCoordinator>;
+
+  constructor(namespace: DurableObjectNamespace<HealthCoordinator>) {
+    this.stub = namespace.get(namespace.idFromName(COORDINATOR_NAME));
+  }
+
+  async getSnapshot(): Promise<BackendStateSnapshot> {
+    if (cachedSnapshot && Date.now() - cachedSnapshot.fetchedAt < SNAPSHOT_TTL) {
+      return cachedSnapshot.snapshot;
+    }
+
+    try {
+      const snapshot = await this.stub.getSnapshot();
+      cachedSnapshot = { snapshot, fetchedAt: Date.now() };
+      return snapshot;
+    } catch (error) {
+      console.error('Coordinator snapshot failed:', error);
+      return cachedSnapshot?.snapshot ?? { health: {}, metrics: {}, cache: { hit: 0, miss: 0, stale: 0 }, splits: {} };
+    }
+  }
+
+  async report(report: StateReport): Promise<void> {
+    if (report.updates.length === 0 && !report.cache && !report.hedges?.length && !report.splits?.length) return;
+    await this.stub.report(report);
+  }
+
+  async recordHealthChecks(results: HealthCheckResult[]): Promise<void> {
+    await this.stub.recordHealthChecks(results);
+  }
+
+  async acquireTrial(url: string): Promise<boolean> {
+    try {
+      return await this.stub.acquireTrial(url);
+    } catch (error) {
+      console.error('Coordinator trial request failed:', error);
+      return false;
+    }
+  }
+}
+
+// In-memory stand-in used offline and when no Durable Object binding is configured;
+// state is only shared within a single isolate
+let localStore: BackendStateStore | null = null;
+
+export class LocalCoordinator implements Coordinator {
+  private store: BackendStateStore;
+
+  constructor(config: ProxyConfig) {
+    localStore ??= new BackendStateStore(config);
+    localStore.setConfig(config);
+    this.store = localStore;
+  }
+
+  async getSnapshot(): Promise<BackendStateSnapshot> {
+    return this.store.snapshot();
+  }
+
+  async report(report: StateReport): Promise<void> {
+    this.store.applyReport(report);
+  }
+
+  async recordHealthChecks(results: HealthCheckResult[]): Promise<void> {
+    this.store.applyHealthChecks(results);
+  }
+
+  async acquireTrial(url: string): Promise<boolean> {
+    return this.store.acquireTrial(url);
+  }
+
+  static reset(): void {
+    localStore = null;
+  }
+}
+
+export const createCoordinator = (env: Env, config: ProxyConfig): Coordinator => {
+  return env.HEALTH_COORDINATOR
+    ? new DurableObjectCoordinator(env.HEALTH_COORDINATOR)
+    : new LocalCoordinator(config);
+};
@@ -0,0 +1,149 @@
+import type { ErrorPagesConfig, ProxyConfig, ProxyErrorKind, RouteConfig } from '../types';
+import type { ProxyError } from '../utils/errors';
+import { renderTemplate } from '../utils/template';
+import { createTraceContext, setTraceHeaders } from '../utils/trace';
+
+const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  413: 'Content Too Large',
+  429: 'Too Many Requests',
+  431: 'Request Header Fields Too Large',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+};
+
+// Upstream messages can name internal hosts, so clients get a fixed description instead
+const DETAILS: Partial<Record<ProxyErrorKind, string>> = {
+  'connect': 'The proxy could not connect to an upstream server.',
+  'upstream': 'The upstream server failed to answer the request.',
+  'timeout': 'The upstream server did not answer in time.',
+  'circuit-open': 'No upstream server is available right now.',
+  'unavailable': 'The service is temporarily unavailable.',
+  'config': 'The proxy configuration is unavailable.',
+  'internal': 'The proxy failed to handle the request.'
+};
+
+const DEFAULT_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>{status} {title}</title></head>
+<body>
+<h1>{status} {title}</h1>
+<p>{detail}</p>
+<p><small>Request ID: {requestId}</small></p>
+</body>
+</html>`;
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Quality of the most specific Accept range that matches `type`; 0 when nothing matches
+const acceptQuality = (accept: string, type: string): number => {
+  let quality = 0;
+  let specificity = -1;
+
+  for (const part of accept.toLowerCase().split(',')) {
+    const [range, ...params] = part.split(';').map(value => value.trim());
+    const level = range === type ? 2 : range === `${type.split('/')[0]}/*` ? 1 : range === '*/*' ? 0 : -1;
+    if (level <= specificity) continue;
+
+    const q = params.find(param => param.startsWith('q='));
+    const parsed = q ? parseFloat(q.slice(2)) : 1;
+    quality = Number.isFinite(parsed) ? parsed : 0;
+    specificity = level;
+  }
+
+  return quality;
+};
+
+// Renders the proxy's own errors as RFC 9457 problem details for APIs or HTML pages for browsers
+export class ErrorPages {
+  constructor(private config: ErrorPagesConfig = {}) {}
+
+  // Route settings override the global ones; pages are merged so a route can replace a single status
+  static forRoute(config: ProxyConfig, route?: RouteConfig): ErrorPages {
+    return new ErrorPages({
+      ...config.errors,
+      ...route?.errors,
+      pages: { ...config.errors?.pages, ...route?.errors?.pages }
+    });
+  }
+
+  // Failures outside the proxy handler (admin, purge, metrics, missing config); the request ID is
+  // echoed like on every other response
+  static respondTo(request: Request, error: ProxyError, config?: ProxyConfig, route?: RouteConfig): Response {
+    const trace = createTraceContext(request);
+    const pages = config ? ErrorPages.forRoute(config, route) : new ErrorPages();
+    const response = pages.respond(request, error, trace.requestId);
+    setTraceHeaders(response.headers, trace);
+    return response;
+  }
+
+  respond(request: Request, error: ProxyError, requestId: string): Response {
+    const detail = DETAILS[error.kind] ?? error.message;
+    return this.render(request, error.status, error.kind, detail, requestId);
+  }
+
+  // With hideUpstreamErrors, a backend's 5xx body is replaced by the proxy's own error document;
+  // the status and Retry-After are kept
+  mask(request: Request, response: Response, requestId: string): Response {
+    if (!this.config.hideUpstreamErrors || response.status < 500) {
+      return response;
+    }
+
+    response.body?.cancel().catch(() => {});
+    const masked = this.render(request, response.status, 'upstream', DETAILS.upstream!, requestId);
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      masked.headers.set('Retry-After', retryAfter);
+    }
+    return masked;
+  }
+
+  private render(request: Request, status: number, code: ProxyErrorKind, detail: string, requestId: string): Response {
+    const title = STATUS_TITLES[status] ?? 'Error';
+    const headers = { 'Cache-Control': 'no-store' };
+
+    if (this.prefersHtml(request)) {
+      const pages = this.config.pages ?? {};
+      const template = pages[String(status)] ?? pages[`${Math.floor(status / 100)}xx`] ?? pages.default ?? DEFAULT_PAGE;
+      const variables = { status: String(status), title, detail, code, requestId };
+      const html = renderTemplate(template, Object.fromEntries(
+        Object.entries(variables).map(([name, value]) => [name, escapeHtml(value)])
+      ));
+      return new Response(html, { status, headers: { ...headers, 'Content-Type': 'text/html; charset=utf-8' } });
+    }
+
+    const type = this.config.typeBase ? `${this.config.typeBase.replace(/\/+$/, '')}/${code}` : 'about:blank';
+    return new Response(JSON.stringify({ type, title, status, detail, code, requestId }), {
+      status,
+      headers: { ...headers, 'Content-Type': 'application/problem+json' }
+    });
+  }
+
+  // Browsers list text/html ahead of everything else; API clients ask for JSON or nothing in particular
+  private prefersHtml(request: Request): boolean {
+    const format = this.config.format ?? 'auto';
+    if (format !== 'auto') {
+      return format === 'html';
+    }
+
+    const accept = request.headers.get('Accept');
+    if (!accept) return false;
+
+    const json = Math.max(acceptQuality(accept, 'application/json'), acceptQuality(accept, 'application/problem+json'));
+    return acceptQuality(accept, 'text/html') > json;
+  }
+}
@@ -0,0 +1,115 @@
+import type { BackendConfig, BackendMetrics, GeoRoutingConfig, RequestInfo } from '../types';
+
+export const CONTINENT_CODES = ['AF', 'AN', 'AS', 'EU', 'NA', 'OC', 'SA'] as const;
+
+const DEFAULT_COUNTRY_REGIONS: Record<string, string> = {
+  CN: 'asia-east', HK: 'asia-east', TW: 'asia-east',
+  JP: 'asia-northeast', KR: 'asia-northeast',
+  SG: 'asia-southeast', MY: 'asia-southeast', TH: 'asia-southeast',
+  ID: 'asia-southeast', PH: 'asia-southeast', VN: 'asia-southeast',
+  IN: 'asia-south', PK: 'asia-south', BD: 'asia-south',
+  US: 'us-west', CA: 'us-west', MX: 'americas-north',
+  BR: 'americas-south', AR: 'americas-south', CL: 'americas-south',
+  GB: 'europe-west', DE: 'europe-west', FR: 'europe-west',
+  NL: 'europe-west', IT: 'europe-west', ES: 'europe-west',
+  PL: 'europe-east', CZ: 'europe-east', RU: 'europe-east',
+  AU: 'oceania', NZ: 'oceania'
+};
+
+// Used for countries with no explicit or built-in mapping, keyed by request.cf.continent
+const DEFAULT_CONTINENT_REGIONS: Record<string, string> = {
+  AF: 'europe-west',
+  AN: 'oceania',
+  AS: 'asia-east',
+  EU: 'europe-west',
+  NA: 'us-west',
+  OC: 'oceania',
+  SA: 'americas-south'
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Great-circle distance in kilometres
+const distance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Maps a client to an ordered chain of backend regions and picks the first one with usable backends
+export class GeoRouter {
+  private countries: Record<string, string>;
+  private colos: Record<string, string>;
+  private continents: Record<string, string>;
+
+  constructor(private config: GeoRoutingConfig = {}) {
+    const upper = (map: Record<string, string> = {}) => {
+      return Object.fromEntries(Object.entries(map).map(([key, region]) => [key.toUpperCase(), region]));
+    };
+    this.countries = upper(config.countries);
+    this.colos = upper(config.colos);
+    this.continents = { ...DEFAULT_CONTINENT_REGIONS, ...upper(config.continents) };
+  }
+
+  // Explicit country and colo mappings first, then the nearest region with known coordinates,
+  // then the built-in country map and finally the continent default
+  resolveRegion(info: RequestInfo): string | undefined {
+    const country = info.country.toUpperCase();
+    const explicit = this.countries[country] ?? (info.colo ? this.colos[info.colo.toUpperCase()] : undefined);
+    if (explicit) return explicit;
+
+    const nearest = this.byDistance(info)[0];
+    if (nearest) return nearest;
+
+    return DEFAULT_COUNTRY_REGIONS[country] ??
+      (info.continent ? this.continents[info.continent.toUpperCase()] : undefined);
+  }
+
+  // The client's region followed by its configured fallbacks, or by the other regions nearest first
+  regionChain(info: RequestInfo): string[] {
+    const region = this.resolveRegion(info);
+    if (!region) return [];
+
+    const fallbacks = this.config.fallbacks?.[region] ?? this.byDistance(info);
+    const chain = [region, ...fallbacks].map(name => name.toLowerCase());
+    return [...new Set(chain)];
+  }
+
+  // Backends of the first region in the chain that has any; empty when none match so the caller
+  // can fall back to the whole pool
+  select(backends: BackendConfig[], info: RequestInfo, metrics: Map<string, BackendMetrics>): BackendConfig[] {
+    const groups = this.regionChain(info)
+      .map(region => backends.filter(backend => backend.region.toLowerCase() === region))
+      .filter(group => group.length > 0);
+    if (groups.length === 0) return [];
+
+    // Latency-aware spillover: skip a region whose every backend is measured slower than the threshold
+    const threshold = this.config.spilloverLatency;
+    if (threshold !== undefined) {
+      const isSlow = (group: BackendConfig[]) => group.every(backend => {
+        const metric = metrics.get(backend.url);
+        return !!metric?.requests && metric.ewmaLatency > threshold;
+      });
+      const fast = groups.find(group => !isSlow(group));
+      if (fast) return fast;
+    }
+
+    return groups[0];
+  }
+
+  private byDistance(info: RequestInfo): string[] {
+    const regions = this.config.regions;
+    if (!regions || info.latitude === undefined || info.longitude === undefined) {
+      return [];
+    }
+
+    return Object.entries(regions)
+      .map(([name, point]) => ({ name, km: distance(info.latitude!, info.longitude!, point.latitude, point.longitude) }))
+      .sort((a, b) => a.km - b.km)
+      .map(entry => entry.name);
+  }
+}
@@ -0,0 +1,108 @@
+import type { BackendConfig, HealthCheckConfig, HealthCheckResult, ProxyConfig } from '../types';
+import type { Coordinator } from './coordinator';
+import { ConfigLoader } from '../config/backends';
+import { readJsonPath } from '../utils/helpers';
+
+const CRON_PERIOD = 60000;
+
+export const HEALTH_CHECK_DEFAULTS = {
+  path: '/health',
+  method: 'HEAD',
+  expectedStatus: { min: 200, max: 299 },
+  timeout: 5000,
+};
+
+export class HealthChecker {
+  constructor(private config: ProxyConfig) {}
+
+  // Probe on the configured interval for the duration of one cron tick
+  async run(coordinator: Coordinator): Promise<void> {
+    const rounds = Math.max(1, Math.floor(CRON_PERIOD / this.config.healthCheckInterval));
+
+    for (let round = 0; round < rounds; round++) {
+      const startTime = Date.now();
+      const results = await this.checkAll();
+
+      results.filter(result => !result.healthy).forEach(result => {
+        console.warn(`Health check failed for ${result.url}: ${result.reason}`);
+      });
+      await coordinator.recordHealthChecks(results);
+
+      if (round < rounds - 1) {
+        const elapsed = Date.now() - startTime;
+        await this.sleep(Math.max(0, this.config.healthCheckInterval - elapsed));
+      }
+    }
+  }
+
+  async checkAll(): Promise<HealthCheckResult[]> {
+    const backends = ConfigLoader.allBackends(this.config);
+    return Promise.all(backends.map(backend => this.checkBackend(backend)));
+  }
+
+  async checkBackend(backend: BackendConfig): Promise<HealthCheckResult> {
+    const check = { ...HEALTH_CHECK_DEFAULTS, ...backend.healthCheck };
+    let reason: string | undefined;
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), check.timeout);
+
+      try {
+        const response = await fetch(`${backend.url}${check.path}`, {
+          method: check.method,
+          headers: check.headers,
+          signal: controller.signal
+        });
+
+        reason = await this.verifyResponse(response, check);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    } catch (error) {
+      reason = error instanceof Error ? error.message : 'Health check failed';
+    }
+
+    return { url: backend.url, healthy: !reason, checkedAt: Date.now(), reason };
+  }
+
+  // Returns a failure reason, or undefined when the response passes every assertion
+  private async verifyResponse(
+    response: Response,
+    check: HealthCheckConfig & typeof HEALTH_CHECK_DEFAULTS
+  ): Promise<string | undefined> {
+    const { min, max } = check.expectedStatus;
+    if (response.status < min || response.status > max) {
+      return `Unexpected status ${response.status}`;
+    }
+
+    if (check.bodyContains === undefined && check.jsonPath === undefined) {
+      return undefined;
+    }
+
+    const body = await response.text();
+
+    if (check.bodyContains !== undefined && !body.includes(check.bodyContains)) {
+      return `Body does not contain "${check.bodyContains}"`;
+    }
+
+    if (check.jsonPath !== undefined) {
+      let actual: unknown;
+      try {
+        actual = readJsonPath(JSON.parse(body), check.jsonPath);
+      } catch (error) {
+        return 'Body is not valid JSON';
+      }
+
+      if (check.jsonValue !== undefined ? actual !== check.jsonValue : actual === undefined) {
+        return `Unexpected value at ${check.jsonPath}: ${JSON.stringify(actual)}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
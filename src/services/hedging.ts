@@ -0,0 +1,48 @@
+import type { BackendConfig, BackendMetrics, HedgingConfig, ProxyConfig, RouteConfig } from '../types';
+import { quantile } from '../utils/histogram';
+
+export const HEDGING_DEFAULTS = {
+  quantile: 0.95,
+  minDelay: 20,
+  minSamples: 20,
+  maxHedges: 1
+};
+
+// Decides whether and when a slow GET gets a duplicate request to another backend
+export class HedgePolicy {
+  readonly maxHedges: number;
+
+  constructor(private config: HedgingConfig) {
+    this.maxHedges = config.maxHedges ?? HEDGING_DEFAULTS.maxHedges;
+  }
+
+  // Route settings override the global ones; `enabled: false` turns hedging off for a route
+  static forRoute(config: ProxyConfig, route?: RouteConfig): HedgePolicy | null {
+    if (!config.hedging && !route?.hedging) return null;
+
+    const merged = { ...config.hedging, ...route?.hedging };
+    return merged.enabled === false ? null : new HedgePolicy(merged);
+  }
+
+  // Only reads are duplicated; WebSocket handshakes never are
+  applies(request: Request): boolean {
+    const method = request.method.toUpperCase();
+    return (method === 'GET' || method === 'HEAD') &&
+      request.headers.get('Upgrade')?.toLowerCase() !== 'websocket';
+  }
+
+  // Milliseconds to wait for `backend` before hedging, or null when there is too little data
+  delayFor(backend: BackendConfig, metrics: Map<string, BackendMetrics>): number | null {
+    if (this.config.delay !== undefined) {
+      return this.config.delay;
+    }
+
+    const metric = metrics.get(backend.url);
+    if (!metric || metric.requests < (this.config.minSamples ?? HEDGING_DEFAULTS.minSamples)) {
+      return null;
+    }
+
+    const estimate = quantile(metric.latencyHistogram, this.config.quantile ?? HEDGING_DEFAULTS.quantile);
+    return Math.max(this.config.minDelay ?? HEDGING_DEFAULTS.minDelay, estimate);
+  }
+}
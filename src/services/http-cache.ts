@@ -0,0 +1,329 @@
+import type { CacheConfig, CacheKeyConfig, ProxyConfig, RouteConfig } from '../types';
+import { directiveSeconds, parseCacheControl, type CacheDirectives } from '../utils/cache-control';
+import { copyResponse, hashString, isWebSocketUpgrade } from '../utils/helpers';
+import { AuthGateway } from './auth';
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE';
+
+// Entries with validators are kept this long past freshness so they can be revalidated cheaply
+const VALIDATOR_RETENTION = 86400;
+
+// Internal headers stored alongside each entry and stripped before serving
+const STORED_AT = 'X-Proxy-Cache-Stored-At';
+const FRESH_FOR = 'X-Proxy-Cache-Fresh-For';
+const STALE_WHILE_REVALIDATE = 'X-Proxy-Cache-SWR';
+const STALE_IF_ERROR = 'X-Proxy-Cache-SIE';
+const ORIGINAL_CACHE_CONTROL = 'X-Proxy-Cache-Control';
+const INTERNAL_HEADERS = [STORED_AT, FRESH_FOR, STALE_WHILE_REVALIDATE, STALE_IF_ERROR, ORIGINAL_CACHE_CONTROL];
+
+export type UpstreamFetcher = (request: Request) => Promise<Response>;
+
+interface ResolvedCacheConfig {
+  enabled: boolean;
+  defaultTtl: number;
+  staleWhileRevalidate: number;
+  staleIfError: number;
+  key: CacheKeyConfig;
+}
+
+// Shared HTTP cache following RFC 9111 freshness, validation and stale-serving rules
+export class HttpCache {
+  private settings: ResolvedCacheConfig;
+
+  constructor(
+    config: ProxyConfig,
+    route: RouteConfig | undefined,
+    private cache: Cache,
+    private ctx: ExecutionContext
+  ) {
+    const merged: CacheConfig = { ...config.cache, ...route?.cache };
+    this.settings = {
+      enabled: merged.enabled ?? config.enableCaching,
+      defaultTtl: merged.defaultTtl ?? config.cacheMaxAge,
+      staleWhileRevalidate: merged.staleWhileRevalidate ?? 0,
+      staleIfError: merged.staleIfError ?? 0,
+      key: merged.key ?? {},
+    };
+  }
+
+  isCacheable(request: Request): boolean {
+    if (!this.settings.enabled || request.method !== 'GET') {
+      return false;
+    }
+    if (isWebSocketUpgrade(request) || request.headers.has('Range')) {
+      return false;
+    }
+    return !parseCacheControl(request.headers.get('Cache-Control')).has('no-store');
+  }
+
+  // Normalized key URL: sorted query without ignored params, plus a hash of the keyed headers
+  cacheKey(request: Request): Request {
+    const url = new URL(request.url);
+    const ignored = this.settings.key.ignoreQueryParams || [];
+    const params = ignored.includes('*')
+      ? []
+      : [...url.searchParams.entries()].filter(([name]) => !ignored.includes(name));
+    params.sort(([a], [b]) => a.localeCompare(b));
+
+    const keyUrl = new URL(url.origin + url.pathname);
+    params.forEach(([name, value]) => keyUrl.searchParams.append(name, value));
+
+    const keyHeaders = this.settings.key.headers || [];
+    if (keyHeaders.length > 0) {
+      const values = keyHeaders.map(name => `${name.toLowerCase()}:${request.headers.get(name) ?? ''}`);
+      keyUrl.searchParams.append('__proxy_vary', hashString(values.join('\n')).toString(36));
+    }
+
+    return new Request(keyUrl.toString(), { method: 'GET' });
+  }
+
+  async handle(request: Request, fetchUpstream: UpstreamFetcher): Promise<Response> {
+    const key = this.cacheKey(request);
+    const cached = await this.match(key);
+    const forceRevalidate = parseCacheControl(request.headers.get('Cache-Control')).has('no-cache');
+
+    if (cached && !forceRevalidate) {
+      const age = this.ageOf(cached);
+      const fresh = this.storedSeconds(cached, FRESH_FOR);
+
+      // Strict comparisons: a response with no freshness (no-cache, max-age=0) is never a plain hit
+      if (age < fresh) {
+        return this.serve(request, cached, 'HIT');
+      }
+      if (age < fresh + this.storedSeconds(cached, STALE_WHILE_REVALIDATE)) {
+        this.ctx.waitUntil(this.revalidate(request, key, cached, fetchUpstream));
+        return this.serve(request, cached, 'STALE');
+      }
+    }
+
+    let response: Response;
+    try {
+      response = await fetchUpstream(cached ? this.withValidators(request, cached) : request);
+    } catch (error) {
+      if (cached && this.withinStaleIfError(cached)) {
+        return this.serve(request, cached, 'STALE');
+      }
+      throw error;
+    }
+
+    if (cached && response.status >= 500 && this.withinStaleIfError(cached)) {
+      return this.serve(request, cached, 'STALE');
+    }
+
+    if (cached && response.status === 304) {
+      const refreshed = this.refresh(cached, response);
+      this.ctx.waitUntil(this.put(key, refreshed.clone()));
+      return this.serve(request, refreshed, 'HIT');
+    }
+
+    return this.store(request, key, response);
+  }
+
+  async purge(urls: string[]): Promise<number> {
+    let deleted = 0;
+    for (const url of urls) {
+      if (await this.cache.delete(this.cacheKey(new Request(url)))) {
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private async revalidate(
+    request: Request,
+    key: Request,
+    cached: Response,
+    fetchUpstream: UpstreamFetcher
+  ): Promise<void> {
+    try {
+      const response = await fetchUpstream(this.withValidators(request, cached));
+      if (response.status === 304) {
+        await this.put(key, this.refresh(cached, response));
+      } else {
+        await this.store(request, key, response).body?.cancel();
+      }
+    } catch (error) {
+      console.error('Background revalidation failed:', error);
+    }
+  }
+
+  private store(request: Request, key: Request, response: Response): Response {
+    const directives = parseCacheControl(response.headers.get('Cache-Control'));
+    const result = copyResponse(response);
+
+    if (!this.isStorable(request, response, directives)) {
+      result.headers.set('X-Cache', 'MISS');
+      return result;
+    }
+
+    const stored = copyResponse(result.clone());
+    const fresh = this.freshnessLifetime(response, directives);
+    const mustRevalidate = directives.has('must-revalidate') || directives.has('proxy-revalidate');
+    const swr = mustRevalidate ? 0 : directiveSeconds(directives, 'stale-while-revalidate') ?? this.settings.staleWhileRevalidate;
+    const sie = mustRevalidate ? 0 : directiveSeconds(directives, 'stale-if-error') ?? this.settings.staleIfError;
+    const hasValidators = response.headers.has('ETag') || response.headers.has('Last-Modified');
+    const retention = Math.max(fresh + Math.max(swr, sie), hasValidators ? fresh + VALIDATOR_RETENTION : 0);
+
+    stored.headers.set(STORED_AT, String(Date.now()));
+    stored.headers.set(FRESH_FOR, String(fresh));
+    stored.headers.set(STALE_WHILE_REVALIDATE, String(swr));
+    stored.headers.set(STALE_IF_ERROR, String(sie));
+    stored.headers.set(ORIGINAL_CACHE_CONTROL, response.headers.get('Cache-Control') || '');
+    stored.headers.set('Cache-Control', `max-age=${retention}`);
+    stored.headers.delete('Age');
+
+    this.ctx.waitUntil(this.put(key, stored));
+
+    result.headers.set('X-Cache', 'MISS');
+    return result;
+  }
+
+  private isStorable(request: Request, response: Response, directives: CacheDirectives): boolean {
+    if (response.status !== 200 || directives.has('no-store') || directives.has('private')) {
+      return false;
+    }
+    if (response.headers.has('Set-Cookie')) {
+      return false;
+    }
+
+    // Authorized responses are only shared when the upstream explicitly allows it; API-key callers
+    // count too, although the gateway has already removed their key header
+    const authorized = request.headers.has('Authorization') || AuthGateway.isAuthenticated(request.headers);
+    if (authorized && !directives.has('public') && !directives.has('s-maxage')) {
+      return false;
+    }
+
+    // Only vary on headers that are part of the cache key (Accept-Encoding is handled by the edge)
+    const vary = response.headers.get('Vary');
+    if (vary) {
+      const keyed = (this.settings.key.headers || []).map(name => name.toLowerCase());
+      const varied = vary.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+      if (varied.some(name => name === '*' || (name !== 'accept-encoding' && !keyed.includes(name)))) {
+        return false;
+      }
+    }
+
+    // Event streams never end, so they can't be buffered into the cache
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      return false;
+    }
+
+    return contentType.includes('application/json') ||
+           contentType.includes('text/') ||
+           contentType.includes('application/xml');
+  }
+
+  // s-maxage, then max-age, then Expires, then the configured default; no-cache means always revalidate
+  private freshnessLifetime(response: Response, directives: CacheDirectives): number {
+    if (directives.has('no-cache')) {
+      return 0;
+    }
+
+    let lifetime = directiveSeconds(directives, 's-maxage') ?? directiveSeconds(directives, 'max-age');
+    if (lifetime === undefined) {
+      const expires = response.headers.get('Expires');
+      if (expires) {
+        const date = Date.parse(response.headers.get('Date') || '') || Date.now();
+        const expiresAt = Date.parse(expires);
+        lifetime = isNaN(expiresAt) ? 0 : Math.max(0, Math.floor((expiresAt - date) / 1000));
+      }
+    }
+
+    const age = parseInt(response.headers.get('Age') || '0', 10) || 0;
+    return Math.max(0, (lifetime ?? this.settings.defaultTtl) - age);
+  }
+
+  private withValidators(request: Request, cached: Response): Request {
+    const headers = new Headers(request.headers);
+    const etag = cached.headers.get('ETag');
+    const lastModified = cached.headers.get('Last-Modified');
+
+    headers.delete('If-None-Match');
+    headers.delete('If-Modified-Since');
+    if (etag) headers.set('If-None-Match', etag);
+    if (lastModified) headers.set('If-Modified-Since', lastModified);
+
+    return new Request(request, { headers });
+  }
+
+  // Merge the 304's headers into the stored entry and restart its freshness clock
+  private refresh(cached: Response, notModified: Response): Response {
+    const refreshed = copyResponse(cached);
+    const directives = parseCacheControl(notModified.headers.get('Cache-Control'));
+
+    notModified.headers.forEach((value, name) => {
+      if (!['content-length', 'content-encoding', 'transfer-encoding'].includes(name.toLowerCase())) {
+        refreshed.headers.set(name, value);
+      }
+    });
+
+    if (notModified.headers.has('Cache-Control')) {
+      refreshed.headers.set(ORIGINAL_CACHE_CONTROL, notModified.headers.get('Cache-Control')!);
+      refreshed.headers.set(FRESH_FOR, String(this.freshnessLifetime(notModified, directives)));
+    }
+    refreshed.headers.set(STORED_AT, String(Date.now()));
+    refreshed.headers.set('Cache-Control', cached.headers.get('Cache-Control') || '');
+    return refreshed;
+  }
+
+  private serve(request: Request, cached: Response, status: CacheStatus): Response {
+    const response = copyResponse(cached.clone());
+    response.headers.set('Age', String(this.ageOf(cached)));
+    response.headers.set('Cache-Control', cached.headers.get(ORIGINAL_CACHE_CONTROL) || '');
+    if (!response.headers.get('Cache-Control')) {
+      response.headers.delete('Cache-Control');
+    }
+    INTERNAL_HEADERS.forEach(name => response.headers.delete(name));
+    response.headers.delete('Cache-Tag');
+    response.headers.set('X-Cache', status);
+
+    if (this.isNotModified(request, response)) {
+      return new Response(null, { status: 304, headers: response.headers });
+    }
+    return response;
+  }
+
+  private isNotModified(request: Request, response: Response): boolean {
+    const ifNoneMatch = request.headers.get('If-None-Match');
+    const etag = response.headers.get('ETag');
+    if (ifNoneMatch && etag) {
+      const weak = (tag: string) => tag.trim().replace(/^W\//, '');
+      return ifNoneMatch === '*' || ifNoneMatch.split(',').some(tag => weak(tag) === weak(etag));
+    }
+
+    const ifModifiedSince = Date.parse(request.headers.get('If-Modified-Since') || '');
+    const lastModified = Date.parse(response.headers.get('Last-Modified') || '');
+    return !isNaN(ifModifiedSince) && !isNaN(lastModified) && lastModified <= ifModifiedSince;
+  }
+
+  private withinStaleIfError(cached: Response): boolean {
+    const fresh = this.storedSeconds(cached, FRESH_FOR);
+    return this.ageOf(cached) < fresh + this.storedSeconds(cached, STALE_IF_ERROR);
+  }
+
+  private ageOf(cached: Response): number {
+    const storedAt = parseInt(cached.headers.get(STORED_AT) || '0', 10);
+    return Math.max(0, Math.floor((Date.now() - storedAt) / 1000));
+  }
+
+  private storedSeconds(cached: Response, header: string): number {
+    return parseInt(cached.headers.get(header) || '0', 10) || 0;
+  }
+
+  private async match(key: Request): Promise<Response | null> {
+    try {
+      return (await this.cache.match(key)) || null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async put(key: Request, response: Response): Promise<void> {
+    try {
+      await this.cache.put(key, response);
+    } catch (error) {
+      console.error('Cache write failed:', error);
+    }
+  }
+}
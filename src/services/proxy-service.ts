@@ -1,11 +1,45 @@
-import type { BackendConfig, ProxyConfig } from '../types';
+import type { BackendConfig, ProxyConfig, RouteConfig, TraceContext } from '../types';
+import type { RequestBody } from '../utils/body';
+import { RetryPolicy, type FailureKind } from './retry-policy';
+import { RetryBudget } from './retry-budget';
+import { Deadline } from '../utils/deadline';
+import { isConnectError } from '../utils/helpers';
+import { ProxyError } from '../utils/errors';
+import { setTraceHeaders } from '../utils/trace';
+import { hmacSign } from '../utils/crypto';
+import { Transformer } from './transformer';
+
+export const DEFAULT_CONNECT_TIMEOUT = 30000;
+export const DEFAULT_REQUEST_TIMEOUT = 60000;
+export const DEFAULT_DEADLINE_HEADER = 'X-Request-Timeout-Ms';
+export const SIGNATURE_HEADER = 'X-Proxy-Signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'X-Proxy-Timestamp';
+
+export interface ProxyRequestOptions {
+  upstreamPath?: string;
+  body?: RequestBody;
+  retryPolicy?: RetryPolicy;
+  retryBudget?: RetryBudget;
+  deadline?: Deadline;
+  trace?: TraceContext;
+  route?: RouteConfig;
+  routeName?: string;
+  onRetry?: () => void;
+  signal?: AbortSignal;
+}
 
 export class ProxyService {
-  constructor(private config: ProxyConfig) {}
+  constructor(private config: ProxyConfig, private signingSecret?: string) {}
 
-  async proxyRequest(request: Request, backend: BackendConfig): Promise<Response> {
+  async proxyRequest(
+    request: Request,
+    backend: BackendConfig,
+    options: ProxyRequestOptions = {}
+  ): Promise<Response> {
     const url = new URL(request.url);
-    const targetUrl = backend.url + url.pathname + url.search;
+    const targetUrl = backend.url + (options.upstreamPath ?? url.pathname) + url.search;
+    const body = options.body ?? { content: request.body, replayable: false };
+    const retryPolicy = options.retryPolicy ?? new RetryPolicy({}, this.config.retryAttempts);
 
     // Prepare headers
     const headers = new Headers(request.headers);
@@ -14,41 +48,99 @@ export class ProxyService {
     headers.set('X-Forwarded-Host', url.hostname);
     headers.set('X-Real-IP', request.headers.get('CF-Connecting-IP') || 'unknown');
 
+    // Propagate the request ID and W3C trace context so backend logs can be correlated
+    if (options.trace) {
+      setTraceHeaders(headers, options.trace);
+    }
+
     // Remove Cloudflare headers
     ['cf-connecting-ip', 'cf-ray', 'cf-visitor', 'cf-ipcountry'].forEach(header => {
       headers.delete(header);
     });
 
+    // Declarative header rules run after the built-in edits so they can override them
+    Transformer.forBackend(this.config, options.route, backend).applyRequestHeaders(
+      headers,
+      Transformer.variables(request, backend, options.trace, options.routeName)
+    );
+
+    // Backends can verify the signature to reject traffic that bypassed the proxy
+    if (this.signingSecret) {
+      await this.signRequest(headers, request.method, targetUrl);
+    }
+
+    // Per-backend total timeout never extends past the whole-request deadline
+    const requestDeadline = options.deadline ?? Deadline.after(this.config.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT);
+    const deadline = requestDeadline.within(backend.timeouts?.total);
+    const connectTimeout = backend.timeouts?.connect ?? DEFAULT_CONNECT_TIMEOUT;
+    const deadlineHeader = this.config.deadlineHeader ?? DEFAULT_DEADLINE_HEADER;
+
     let lastError: Error | null = null;
 
-    for (let attempt = 0; attempt < this.config.retryAttempts; attempt++) {
+    for (let attempt = 0; attempt < retryPolicy.attempts; attempt++) {
+      if (options.signal?.aborted) {
+        throw new Error(`Request to ${backend.url} cancelled`);
+      }
+      if (deadline.expired()) {
+        lastError = new ProxyError('timeout', `Upstream timeout: deadline exceeded for ${backend.url}`);
+        break;
+      }
+
+      // Time allowed to receive response headers; the body is governed by the idle timeout instead
+      const timeout = Math.min(connectTimeout, deadline.remaining());
+      headers.set(deadlineHeader, String(requestDeadline.remaining()));
+
+      const controller = new AbortController();
+      options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+      let timedOut = false;
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout);
+
       try {
         const proxyRequest = new Request(targetUrl, {
           method: request.method,
           headers: headers,
-          body: request.method !== 'GET' && request.method !== 'HEAD' ? request.body : null,
+          body: request.method !== 'GET' && request.method !== 'HEAD' ? body.content : null,
+          // Redirects go back to the client so Location and Set-Cookie can be rewritten on the way
+          redirect: 'manual'
         });
 
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
-
         const response = await fetch(proxyRequest, {
           signal: controller.signal
         });
 
         clearTimeout(timeoutId);
-        return response;
+        return this.isStreaming(response)
+          ? this.withIdleTimeout(response, controller)
+          : response;
 
       } catch (error) {
-        lastError = error as Error;
+        clearTimeout(timeoutId);
+
+        // Cancelled by the caller, e.g. a hedged request that lost the race
+        if (options.signal?.aborted) {
+          throw new Error(`Request to ${backend.url} cancelled`);
+        }
 
-        // Only retry on network errors, not HTTP errors
-        if (!this.isRetryableError(error as Error)) {
+        lastError = timedOut
+          ? new ProxyError('timeout', `Upstream timeout after ${timeout}ms from ${backend.url}`)
+          : error as Error;
+
+        // Only retry on network errors, not HTTP errors, and only when the body can be replayed
+        if (!this.isRetryableError(lastError) ||
+            !retryPolicy.canRetry(request, body, ProxyService.classifyError(lastError))) {
           break;
         }
 
-        if (attempt < this.config.retryAttempts - 1) {
-          await this.sleep(Math.pow(2, attempt) * 1000);
+        if (attempt < retryPolicy.attempts - 1) {
+          const delay = retryPolicy.backoffDelay(attempt);
+          if (delay >= deadline.remaining() || (options.retryBudget && !options.retryBudget.tryAcquire())) {
+            break;
+          }
+          options.onRetry?.();
+          await this.sleep(delay);
         }
       }
     }
@@ -56,6 +148,73 @@ export class ProxyService {
     throw lastError || new Error('All retry attempts failed');
   }
 
+  // Signs `<timestamp>\n<METHOD>\n<path and query>` with HMAC-SHA256
+  private async signRequest(headers: Headers, method: string, targetUrl: string): Promise<void> {
+    const target = new URL(targetUrl);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const payload = `${timestamp}\n${method.toUpperCase()}\n${target.pathname}${target.search}`;
+
+    headers.set(SIGNATURE_TIMESTAMP_HEADER, timestamp);
+    headers.set(SIGNATURE_HEADER, await hmacSign(this.signingSecret!, payload));
+  }
+
+  // Event streams and chunked bodies without a length can stay open indefinitely
+  private isStreaming(response: Response): boolean {
+    if (response.webSocket || !response.body) {
+      return false;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    return contentType.includes('text/event-stream') || !response.headers.has('content-length');
+  }
+
+  // Abort the upstream when no chunk arrives within streamIdleTimeout; waiting on a slow client doesn't count
+  private withIdleTimeout(response: Response, controller: AbortController): Response {
+    const reader = response.body!.getReader();
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const timeout = this.config.streamIdleTimeout;
+
+    const stop = (reason: unknown) => {
+      controller.abort();
+      reader.cancel(reason).catch(() => {});
+    };
+    const onIdle = () => stop(new Error('Stream idle timeout'));
+    // A client disconnect aborts the upstream fetch straight away, which also ends a read
+    // still waiting on a quiet backend; the pump then cancels the reader below
+    writer.closed.catch(() => controller.abort());
+
+    const pump = async () => {
+      let timeoutId = setTimeout(onIdle, timeout);
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          clearTimeout(timeoutId);
+          if (done) break;
+
+          await writer.write(value);
+          timeoutId = setTimeout(onIdle, timeout);
+        }
+        await writer.close();
+      } catch (error) {
+        clearTimeout(timeoutId);
+        stop(error);
+        await writer.abort(error).catch(() => {});
+      }
+    };
+    pump();
+
+    return new Response(readable, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  }
+
+  static classifyError(error: Error): FailureKind {
+    return isConnectError(error) ? 'connect' : 'error';
+  }
+
   private isRetryableError(error: Error): boolean {
     return error.name === 'TypeError' ||
            error.message.includes('fetch') ||
@@ -0,0 +1,148 @@
+import type {
+  Env,
+  ProxyConfig,
+  RateLimitConfig,
+  RateLimitDecision,
+  TokenBucketState
+} from '../types';
+import type { RateLimiter } from '../durable-objects/rate-limiter';
+import type { ResolvedRoute } from './router';
+import { sha256 } from '../utils/crypto';
+
+const MAX_LOCAL_BUCKETS = 10000;
+
+// Buckets hold up to `burst` tokens (default `limit`) and refill at `limit` per `window` milliseconds
+export const takeToken = (
+  rule: RateLimitConfig,
+  state: TokenBucketState | undefined,
+  now: number
+): { state: TokenBucketState; decision: RateLimitDecision } => {
+  const capacity = rule.burst ?? rule.limit;
+  const refillPerMs = rule.limit / rule.window;
+
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  let tokens = state ? Math.min(capacity, state.tokens + elapsed * refillPerMs) : capacity;
+
+  const allowed = tokens >= 1;
+  if (allowed) {
+    tokens -= 1;
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(tokens),
+      reset: Math.ceil((capacity - tokens) / refillPerMs / 1000),
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000))
+    }
+  };
+};
+
+export interface RateLimitStore {
+  take(key: string, rule: RateLimitConfig): Promise<RateLimitDecision>;
+}
+
+// Buckets that were touched least recently are evicted first once the isolate holds too many
+let localBuckets = new Map<string, TokenBucketState>();
+
+export class LocalRateLimitStore implements RateLimitStore {
+  async take(key: string, rule: RateLimitConfig): Promise<RateLimitDecision> {
+    const { state, decision } = takeToken(rule, localBuckets.get(key), Date.now());
+
+    localBuckets.delete(key);
+    localBuckets.set(key, state);
+    if (localBuckets.size > MAX_LOCAL_BUCKETS) {
+      localBuckets.delete(localBuckets.keys().next().value!);
+    }
+
+    return decision;
+  }
+
+  static reset(): void {
+    localBuckets = new Map();
+  }
+}
+
+// One Durable Object per bucket key, so limits hold across isolates and colos
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  private fallback = new LocalRateLimitStore();
+
+  constructor(private namespace: DurableObjectNamespace<RateLimiter>) {}
+
+  async take(key: string, rule: RateLimitConfig): Promise<RateLimitDecision> {
+    try {
+      // Object names show up in dashboards and logs, so client identifiers are hashed first
+      const stub = this.namespace.get(this.namespace.idFromName(await sha256(key)));
+      return await stub.take(rule);
+    } catch (error) {
+      console.error('Rate limiter unavailable, using local bucket:', error);
+      return this.fallback.take(key, rule);
+    }
+  }
+}
+
+export const createRateLimitStore = (env: Env): RateLimitStore => {
+  return env.RATE_LIMITER
+    ? new DurableObjectRateLimitStore(env.RATE_LIMITER)
+    : new LocalRateLimitStore();
+};
+
+export interface RateLimitResult {
+  decision: RateLimitDecision;
+  rule: RateLimitConfig;
+}
+
+// Global limits apply to every request; a matched route adds its own
+export class RateLimitService {
+  constructor(private config: ProxyConfig, private store: RateLimitStore) {}
+
+  // Returns the most restrictive outcome, or null when no limits apply; `identity` is the caller
+  // the auth gateway verified, if any
+  async check(request: Request, route: ResolvedRoute, identity?: string): Promise<RateLimitResult | null> {
+    const routeLabel = route.route?.name ?? route.poolName;
+    const rules = [
+      ...(this.config.rateLimits || []).map((rule, index) => ({ rule, id: rule.name ?? `global#${index}` })),
+      ...(route.route?.rateLimits || []).map((rule, index) => ({ rule, id: rule.name ?? `route:${routeLabel}#${index}` }))
+    ];
+    if (rules.length === 0) return null;
+
+    const results = await Promise.all(rules.map(async ({ rule, id }) => {
+      const key = `${id}:${this.identify(request, rule, routeLabel, identity)}`;
+      return { rule, decision: await this.store.take(key, rule) };
+    }));
+
+    const denied = results.filter(result => !result.decision.allowed);
+    if (denied.length > 0) {
+      return denied.reduce((a, b) => (b.decision.retryAfter > a.decision.retryAfter ? b : a));
+    }
+    return results.reduce((a, b) => (b.decision.remaining < a.decision.remaining ? b : a));
+  }
+
+  static applyHeaders(headers: Headers, { decision, rule }: RateLimitResult): void {
+    const burst = rule.burst !== undefined ? `;burst=${rule.burst}` : '';
+    headers.set('RateLimit-Policy', `${rule.limit};w=${Math.ceil(rule.window / 1000)}${burst}`);
+    headers.set('RateLimit-Limit', String(decision.limit));
+    headers.set('RateLimit-Remaining', String(decision.remaining));
+    headers.set('RateLimit-Reset', String(decision.reset));
+    if (!decision.allowed) {
+      headers.set('Retry-After', String(decision.retryAfter));
+    }
+  }
+
+  // Header limits count per verified caller, never per raw header value, so a client can't mint a
+  // fresh bucket by sending a new key; unauthenticated requests are limited by client IP instead
+  private identify(request: Request, rule: RateLimitConfig, routeLabel: string, identity?: string): string {
+    const ip = `ip:${request.headers.get('CF-Connecting-IP') || 'unknown'}`;
+
+    switch (rule.key.source) {
+      case 'header':
+        return identity ? `caller:${identity}` : ip;
+      case 'route':
+        return `route:${routeLabel}`;
+      default:
+        return ip;
+    }
+  }
+}
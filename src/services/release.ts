@@ -0,0 +1,93 @@
+import type { HashKeyConfig, ProxyConfig, ReleaseConfig, RequestInfo, RouteConfig, TrafficSplit } from '../types';
+import type { ResolvedRoute, Router } from './router';
+import { getCookie, hashString } from '../utils/helpers';
+
+export const STABLE_SPLIT = 'stable';
+export const MIRROR_HEADER = 'X-Proxy-Shadow';
+
+// Split percentages have 0.01% resolution
+const BUCKETS = 10000;
+const DEFAULT_STICKY: HashKeyConfig = { source: 'ip' };
+const DEFAULT_MIRROR_METHODS = ['GET', 'HEAD'];
+
+// Canary splits, forced versions and shadow sampling for one route
+export class ReleaseRouter {
+  constructor(private config: ReleaseConfig, private random: () => number = Math.random) {}
+
+  // A route's `release` block; the top-level one applies only to requests that match no route
+  static forRoute(config: ProxyConfig, route?: RouteConfig): ReleaseRouter | null {
+    const release = route ? route.release : config.release;
+    return release ? new ReleaseRouter(release) : null;
+  }
+
+  // The resolved route with its pool replaced by the chosen split's pool
+  assign(requestInfo: RequestInfo, resolved: ResolvedRoute, router: Router): ResolvedRoute {
+    const split = this.choose(requestInfo, resolved.route?.name ?? resolved.poolName);
+    if (!split) {
+      return { ...resolved, split: STABLE_SPLIT };
+    }
+    return { ...resolved, split: split.name, poolName: split.pool, pool: router.getPool(split.pool) };
+  }
+
+  // A forced version wins; otherwise the sticky key picks a bucket, and the splits take
+  // consecutive ranges from bucket 0 so raising a percentage keeps existing clients in place
+  choose(requestInfo: RequestInfo, salt: string): TrafficSplit | null {
+    const splits = this.config.splits || [];
+
+    const forced = this.forcedVersion(requestInfo);
+    if (forced === STABLE_SPLIT) return null;
+    const forcedSplit = forced && splits.find(split => split.name.toLowerCase() === forced);
+    if (forcedSplit) return forcedSplit;
+
+    const key = this.stickyKey(requestInfo);
+    const bucket = key !== null
+      ? hashString(`${salt}:${key}`) % BUCKETS
+      : Math.floor(this.random() * BUCKETS);
+
+    let upper = 0;
+    for (const split of splits) {
+      upper += split.percent * (BUCKETS / 100);
+      if (bucket < upper) return split;
+    }
+    return null;
+  }
+
+  // The pool to shadow this request to, if it was sampled
+  mirrorPool(request: Request): string | null {
+    const mirror = this.config.mirror;
+    if (!mirror) return null;
+
+    const methods = (mirror.methods ?? DEFAULT_MIRROR_METHODS).map(method => method.toUpperCase());
+    if (!methods.includes(request.method) || request.headers.get('Upgrade')?.toLowerCase() === 'websocket') {
+      return null;
+    }
+    return this.random() * 100 < mirror.percent ? mirror.pool : null;
+  }
+
+  get mirrorName(): string {
+    return this.config.mirror?.name ?? 'mirror';
+  }
+
+  private forcedVersion(requestInfo: RequestInfo): string | null {
+    const force = this.config.force;
+    if (!force) return null;
+
+    const value = (force.header ? requestInfo.headers.get(force.header) : null) ??
+      (force.cookie ? getCookie(requestInfo.headers, force.cookie) : null);
+    return value ? value.trim().toLowerCase() : null;
+  }
+
+  private stickyKey(requestInfo: RequestInfo): string | null {
+    const sticky = this.config.sticky ?? DEFAULT_STICKY;
+    switch (sticky.source) {
+      case 'header':
+        return requestInfo.headers.get(sticky.name!);
+      case 'cookie':
+        return getCookie(requestInfo.headers, sticky.name!);
+      case 'ip':
+        return requestInfo.clientIP !== 'unknown' ? requestInfo.clientIP : null;
+      case 'path':
+        return requestInfo.path.split('?')[0];
+    }
+  }
+}
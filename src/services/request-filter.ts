@@ -0,0 +1,140 @@
+import type { AccessListConfig, ProxyConfig, RequestFilterConfig, RequestInfo, RouteConfig } from '../types';
+import { ProxyError } from '../utils/errors';
+import { ipMatches } from '../utils/ip';
+
+export const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+
+// Double and triple encoding are unwrapped; anything still encoded after that is left to the backend
+const MAX_DECODE_ROUNDS = 3;
+
+// Route lists replace the global allow list but add to the global deny list
+const mergeAccessList = (global?: AccessListConfig, route?: AccessListConfig): AccessListConfig | undefined => {
+  if (!global || !route) return route ?? global;
+  return { allow: route.allow ?? global.allow, deny: [...(global.deny ?? []), ...(route.deny ?? [])] };
+};
+
+// A deny match always blocks; a non-empty allow list blocks everything it doesn't match
+const permits = <T>(list: { allow?: T[]; deny?: T[] } | undefined, matches: (entry: T) => boolean): boolean => {
+  if (!list) return true;
+  if (list.deny?.some(matches)) return false;
+  return !list.allow?.length || list.allow.some(matches);
+};
+
+// Rejects requests that should never reach a backend, before any rate limit, cache or upstream work
+export class RequestFilter {
+  readonly maxBodySize: number;
+  private methods: string[] | null;
+  private userAgents: { allow?: RegExp[]; deny?: RegExp[] };
+
+  constructor(private config: RequestFilterConfig = {}) {
+    this.maxBodySize = config.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    this.methods = config.methods ? config.methods.map(method => method.toUpperCase()) : null;
+
+    const compile = (patterns?: string[]) => patterns?.map(pattern => new RegExp(pattern, 'i'));
+    this.userAgents = { allow: compile(config.userAgents?.allow), deny: compile(config.userAgents?.deny) };
+  }
+
+  // Route settings override the global ones field by field
+  static forRoute(config: ProxyConfig, route?: RouteConfig): RequestFilter {
+    const global = config.filter ?? {};
+    const local = route?.filter ?? {};
+    return new RequestFilter({
+      ...global,
+      ...local,
+      ips: mergeAccessList(global.ips, local.ips),
+      countries: mergeAccessList(global.countries, local.countries),
+      userAgents: mergeAccessList(global.userAgents, local.userAgents)
+    });
+  }
+
+  // Methods for the Allow header of a 405, or null when every method is allowed
+  get allowedMethods(): string[] | null {
+    return this.methods;
+  }
+
+  // The first rule the request breaks, or null when it may proceed
+  check(request: Request, info: RequestInfo): ProxyError | null {
+    const method = request.method.toUpperCase();
+    if (this.methods && !this.methods.includes(method)) {
+      return new ProxyError('method-not-allowed', `Method ${method} is not allowed`);
+    }
+
+    const pathProblem = this.pathProblem(new URL(request.url).pathname);
+    if (pathProblem) {
+      return new ProxyError('bad-request', pathProblem);
+    }
+
+    const headerProblem = this.headerProblem(request.headers);
+    if (headerProblem) {
+      return new ProxyError('headers-too-large', headerProblem);
+    }
+
+    if (!permits(this.config.ips, entry => ipMatches(info.clientIP, entry))) {
+      return new ProxyError('forbidden', 'Client address is not allowed');
+    }
+
+    const country = info.country.toUpperCase();
+    if (!permits(this.config.countries, entry => entry.toUpperCase() === country)) {
+      return new ProxyError('forbidden', 'Client country is not allowed');
+    }
+
+    if (!permits(this.userAgents, pattern => pattern.test(info.userAgent))) {
+      return new ProxyError('forbidden', 'Client is not allowed');
+    }
+
+    // Bodies without a Content-Length are counted as they stream, see limitRequestBody
+    const contentLength = Number(request.headers.get('Content-Length') ?? 0);
+    if (contentLength > this.maxBodySize) {
+      return new ProxyError('too-large', `Request body exceeds ${this.maxBodySize} bytes`);
+    }
+
+    return null;
+  }
+
+  // URL parsing already resolves literal and %2e dot segments, so what's left to catch is encoded
+  // separators and dot segments that only appear once a backend decodes the path again.
+  // Both rules are opt-in; paths are passed on untouched unless one is enabled
+  private pathProblem(pathname: string): string | null {
+    const { blockEncodedSlashes, blockTraversal } = this.config;
+    if (!blockEncodedSlashes && !blockTraversal) return null;
+
+    let path = pathname;
+    for (let round = 0; round < MAX_DECODE_ROUNDS && /%[0-9a-f]{2}/i.test(path); round++) {
+      if (blockEncodedSlashes && /%(2f|5c)/i.test(path)) {
+        return 'Encoded slashes are not allowed in the path';
+      }
+      try {
+        path = decodeURIComponent(path);
+      } catch {
+        return blockTraversal ? 'Malformed percent-encoding in the path' : null;
+      }
+    }
+
+    if (!blockTraversal) return null;
+    if (path.includes('\0')) {
+      return 'Encoded NUL bytes are not allowed in the path';
+    }
+    if (path.includes('\\') || path.split('/').some(segment => segment === '..' || segment === '.')) {
+      return 'Path traversal is not allowed';
+    }
+    return null;
+  }
+
+  // Sizes count header names and values, including the headers Cloudflare adds at the edge
+  private headerProblem(headers: Headers): string | null {
+    let count = 0;
+    let size = 0;
+    headers.forEach((value, name) => {
+      count++;
+      size += name.length + value.length;
+    });
+
+    if (this.config.maxHeaderCount !== undefined && count > this.config.maxHeaderCount) {
+      return `Too many request headers (limit ${this.config.maxHeaderCount})`;
+    }
+    if (this.config.maxHeaderSize !== undefined && size > this.config.maxHeaderSize) {
+      return `Request headers exceed ${this.config.maxHeaderSize} bytes`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,78 @@
+import type { RetryBudgetConfig } from '../types';
+
+const BUCKET_MS = 1000;
+
+interface Bucket {
+  start: number;
+  requests: number;
+  retries: number;
+}
+
+export const RETRY_BUDGET_DEFAULTS = {
+  ratio: 0.1,
+  minRetriesPerSecond: 10,
+  window: 10000,
+};
+
+// Per-isolate counters; traffic is spread across isolates, so the ratio holds globally too
+const buckets: Bucket[] = [];
+
+// Caps retries at a fraction of recent traffic so retries can't amplify an outage
+export class RetryBudget {
+  private ratio: number;
+  private minRetriesPerSecond: number;
+  private window: number;
+
+  constructor(config: RetryBudgetConfig = {}) {
+    this.ratio = config.ratio ?? RETRY_BUDGET_DEFAULTS.ratio;
+    this.minRetriesPerSecond = config.minRetriesPerSecond ?? RETRY_BUDGET_DEFAULTS.minRetriesPerSecond;
+    this.window = config.window ?? RETRY_BUDGET_DEFAULTS.window;
+  }
+
+  recordRequest(now = Date.now()): void {
+    this.currentBucket(now).requests++;
+  }
+
+  tryAcquire(now = Date.now()): boolean {
+    const cutoff = now - this.window;
+    let requests = 0;
+    let retries = 0;
+    for (const bucket of buckets) {
+      if (bucket.start >= cutoff) {
+        requests += bucket.requests;
+        retries += bucket.retries;
+      }
+    }
+
+    const allowed = Math.max(
+      this.ratio * requests,
+      this.minRetriesPerSecond * (this.window / 1000)
+    );
+    if (retries >= allowed) {
+      return false;
+    }
+
+    this.currentBucket(now).retries++;
+    return true;
+  }
+
+  private currentBucket(now: number): Bucket {
+    const start = now - (now % BUCKET_MS);
+    const cutoff = now - this.window;
+
+    while (buckets.length > 0 && buckets[0].start < cutoff) {
+      buckets.shift();
+    }
+
+    let bucket = buckets[buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, requests: 0, retries: 0 };
+      buckets.push(bucket);
+    }
+    return bucket;
+  }
+
+  static reset(): void {
+    buckets.length = 0;
+  }
+}
@@ -0,0 +1,53 @@
+import type { BackoffConfig, RetryConfig } from '../types';
+import type { RequestBody } from '../utils/body';
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE']);
+
+export const RETRY_DEFAULTS = {
+  maxBackends: 3,
+  bufferLimit: 1024 * 1024,
+  backoff: { base: 1000, max: 10000, jitter: true },
+};
+
+// Why an attempt failed: `connect` means the upstream never received the request
+export type FailureKind = 'connect' | 'error' | 'status';
+
+export class RetryPolicy {
+  readonly attempts: number;
+  readonly maxBackends: number;
+  readonly bufferLimit: number;
+  private retryNonIdempotent: boolean;
+  private backoff: Required<BackoffConfig>;
+
+  constructor(
+    config: RetryConfig,
+    defaultAttempts: number,
+    private random: () => number = Math.random
+  ) {
+    this.attempts = config.attempts ?? defaultAttempts;
+    this.maxBackends = config.maxBackends ?? RETRY_DEFAULTS.maxBackends;
+    this.bufferLimit = config.bufferLimit ?? RETRY_DEFAULTS.bufferLimit;
+    this.retryNonIdempotent = config.retryNonIdempotent ?? false;
+    this.backoff = { ...RETRY_DEFAULTS.backoff, ...config.backoff };
+  }
+
+  // Exponential backoff capped at `max`; full jitter spreads retries from many clients apart
+  backoffDelay(attempt: number): number {
+    const delay = Math.min(this.backoff.max, this.backoff.base * Math.pow(2, attempt));
+    return this.backoff.jitter ? Math.floor(this.random() * delay) : delay;
+  }
+
+  // Non-idempotent requests are only re-sent when the upstream can't have acted on them,
+  // or when the client supplied an Idempotency-Key
+  canRetry(request: Request, body: RequestBody, failure: FailureKind): boolean {
+    if (!body.replayable) {
+      return false;
+    }
+
+    if (IDEMPOTENT_METHODS.has(request.method) || this.retryNonIdempotent) {
+      return true;
+    }
+
+    return failure === 'connect' || request.headers.has('Idempotency-Key');
+  }
+}
@@ -0,0 +1,123 @@
+import type { BackendPool, ProxyConfig, RouteConfig, RouteMatch } from '../types';
+
+export const DEFAULT_POOL = 'default';
+
+export interface ResolvedRoute {
+  route?: RouteConfig;
+  poolName: string;
+  pool: BackendPool;
+  upstreamPath: string;
+  split?: string;
+}
+
+interface CompiledRoute {
+  route: RouteConfig;
+  pathRegex?: RegExp;
+  rewrite?: RegExp;
+}
+
+// First matching route wins; unmatched requests go to the default pool built from `backends`
+export class Router {
+  private routes: CompiledRoute[];
+
+  constructor(private config: ProxyConfig) {
+    this.routes = (config.routes || []).map(route => ({
+      route,
+      pathRegex: route.match.pathRegex ? new RegExp(route.match.pathRegex) : undefined,
+      rewrite: route.rewrite ? new RegExp(route.rewrite.pattern) : undefined,
+    }));
+  }
+
+  resolve(request: Request): ResolvedRoute {
+    const url = new URL(request.url);
+
+    for (const compiled of this.routes) {
+      if (this.matches(compiled, request, url)) {
+        return {
+          route: compiled.route,
+          poolName: compiled.route.pool,
+          pool: this.getPool(compiled.route.pool),
+          upstreamPath: this.rewritePath(compiled, url.pathname),
+        };
+      }
+    }
+
+    return {
+      poolName: DEFAULT_POOL,
+      pool: this.getPool(DEFAULT_POOL),
+      upstreamPath: url.pathname,
+    };
+  }
+
+  getPool(name: string): BackendPool {
+    if (name === DEFAULT_POOL && !this.config.pools?.[DEFAULT_POOL]) {
+      return { backends: this.config.backends, loadBalancing: this.config.loadBalancing };
+    }
+
+    const pool = this.config.pools?.[name];
+    if (!pool) {
+      throw new Error(`Unknown backend pool: ${name}`);
+    }
+    return pool;
+  }
+
+  private matches(compiled: CompiledRoute, request: Request, url: URL): boolean {
+    const match: RouteMatch = compiled.route.match;
+
+    if (match.host && !this.matchesHost(match.host, url.hostname)) {
+      return false;
+    }
+    if (match.pathPrefix && !this.matchesPrefix(match.pathPrefix, url.pathname)) {
+      return false;
+    }
+    if (compiled.pathRegex && !compiled.pathRegex.test(url.pathname)) {
+      return false;
+    }
+    if (match.methods && !match.methods.some(method => method.toUpperCase() === request.method)) {
+      return false;
+    }
+
+    for (const [name, expected] of Object.entries(match.headers || {})) {
+      const actual = request.headers.get(name);
+      if (actual === null || (expected !== '*' && actual !== expected)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // Prefixes match whole segments: `/api` matches `/api` and `/api/users` but not `/apiv2`
+  private matchesPrefix(prefix: string, pathname: string): boolean {
+    if (prefix.endsWith('/')) {
+      return pathname.startsWith(prefix);
+    }
+    return pathname === prefix || pathname.startsWith(`${prefix}/`);
+  }
+
+  // Supports exact hosts and a leading wildcard label, e.g. `*.example.com`
+  private matchesHost(pattern: string, hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    const expected = pattern.toLowerCase();
+
+    if (expected.startsWith('*.')) {
+      return host.endsWith(expected.slice(1));
+    }
+    return host === expected;
+  }
+
+  private rewritePath(compiled: CompiledRoute, pathname: string): string {
+    let path = pathname;
+
+    const prefix = compiled.route.match.pathPrefix;
+    if (compiled.route.stripPrefix && prefix) {
+      path = path.slice(prefix.length);
+    }
+
+    if (compiled.rewrite && compiled.route.rewrite) {
+      path = path.replace(compiled.rewrite, compiled.route.rewrite.replacement);
+    }
+
+    return path.startsWith('/') ? path : `/${path}`;
+  }
+}
@@ -0,0 +1,75 @@
+import type { BackendConfig, HashKeyConfig, RequestInfo } from '../../types';
+import type { LoadBalancingStrategy, SelectionContext } from './types';
+import { getCookie, hashString } from '../../utils/helpers';
+import { weightedRandomSelect } from './weighted-random';
+
+const VIRTUAL_NODES_PER_WEIGHT = 100;
+
+interface RingNode {
+  hash: number;
+  backend: BackendConfig;
+}
+
+// Rings per backend set, built once per isolate
+const rings = new Map<string, RingNode[]>();
+
+// Hash ring with weight-proportional virtual nodes; removing a backend only remaps its own keys
+export class ConsistentHashStrategy implements LoadBalancingStrategy {
+  constructor(private hashKey: HashKeyConfig) {}
+
+  select(backends: BackendConfig[], context: SelectionContext): BackendConfig {
+    const key = this.extractKey(context.requestInfo);
+    if (key === null) {
+      return weightedRandomSelect(backends, context.random);
+    }
+
+    const ring = this.getRing(backends);
+    const hash = hashString(key);
+
+    // First node clockwise from the key's hash
+    let low = 0;
+    let high = ring.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (ring[mid].hash < hash) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return ring[low % ring.length].backend;
+  }
+
+  private extractKey(requestInfo: RequestInfo): string | null {
+    switch (this.hashKey.source) {
+      case 'header':
+        return requestInfo.headers.get(this.hashKey.name!);
+      case 'cookie':
+        return getCookie(requestInfo.headers, this.hashKey.name!);
+      case 'ip':
+        return requestInfo.clientIP !== 'unknown' ? requestInfo.clientIP : null;
+      case 'path':
+        return requestInfo.path.split('?')[0];
+    }
+  }
+
+  private getRing(backends: BackendConfig[]): RingNode[] {
+    const key = backends.map(backend => `${backend.url}:${backend.weight}`).sort().join('|');
+    let ring = rings.get(key);
+
+    if (!ring) {
+      ring = [];
+      for (const backend of backends) {
+        const nodes = Math.max(1, Math.round(backend.weight * VIRTUAL_NODES_PER_WEIGHT));
+        for (let i = 0; i < nodes; i++) {
+          ring.push({ hash: hashString(`${backend.url}#${i}`), backend });
+        }
+      }
+      ring.sort((a, b) => a.hash - b.hash);
+      rings.set(key, ring);
+    }
+
+    return ring;
+  }
+}
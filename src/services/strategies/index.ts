@@ -0,0 +1,47 @@
+import type { LoadBalancingConfig } from '../../types';
+import type { LoadBalancingStrategy } from './types';
+import { ConsistentHashStrategy } from './consistent-hash';
+import { LeastLatencyStrategy } from './least-latency';
+import { PerformanceStrategy } from './performance';
+import { PowerOfTwoStrategy } from './power-of-two';
+import { RoundRobinStrategy } from './round-robin';
+import { WeightedRandomStrategy } from './weighted-random';
+
+export type { LoadBalancingStrategy, SelectionContext } from './types';
+export { weightedRandomSelect } from './weighted-random';
+
+export const STRATEGY_NAMES = [
+  'performance',
+  'weighted-random',
+  'round-robin',
+  'least-latency',
+  'power-of-two',
+  'consistent-hash',
+] as const;
+
+export const createStrategy = (options: LoadBalancingConfig): LoadBalancingStrategy => {
+  switch (options.strategy ?? 'performance') {
+    case 'weighted-random':
+      return new WeightedRandomStrategy();
+    case 'round-robin':
+      return new RoundRobinStrategy();
+    case 'least-latency':
+      return new LeastLatencyStrategy();
+    case 'power-of-two':
+      return new PowerOfTwoStrategy();
+    case 'consistent-hash':
+      return new ConsistentHashStrategy(options.hashKey ?? { source: 'ip' });
+    case 'performance':
+    default:
+      return new PerformanceStrategy();
+  }
+};
+
+export {
+  ConsistentHashStrategy,
+  LeastLatencyStrategy,
+  PerformanceStrategy,
+  PowerOfTwoStrategy,
+  RoundRobinStrategy,
+  WeightedRandomStrategy,
+};
@@ -0,0 +1,25 @@
+import type { BackendConfig } from '../../types';
+import type { LoadBalancingStrategy, SelectionContext } from './types';
+
+// Lowest EWMA latency wins; backends without samples are tried first so they get measured
+export class LeastLatencyStrategy implements LoadBalancingStrategy {
+  select(backends: BackendConfig[], context: SelectionContext): BackendConfig {
+    const unmeasured = backends.filter(backend => !context.metrics.get(backend.url)?.requests);
+    if (unmeasured.length > 0) {
+      return unmeasured[Math.floor(context.random() * unmeasured.length)];
+    }
+
+    let selected = backends[0];
+    let best = Infinity;
+
+    for (const backend of backends) {
+      const latency = context.metrics.get(backend.url)!.ewmaLatency;
+      if (latency < best) {
+        best = latency;
+        selected = backend;
+      }
+    }
+
+    return selected;
+  }
+}
@@ -0,0 +1,40 @@
+import type { BackendConfig } from '../../types';
+import type { LoadBalancingStrategy, SelectionContext } from './types';
+import { weightedRandomSelect } from './weighted-random';
+
+// Weighted random where weights come from a combined error rate (70%) and response time (30%) score
+export class PerformanceStrategy implements LoadBalancingStrategy {
+  select(backends: BackendConfig[], context: SelectionContext): BackendConfig {
+    if (context.metrics.size === 0) {
+      return weightedRandomSelect(backends, context.random);
+    }
+
+    const scores = new Map<string, number>();
+
+    for (const backend of backends) {
+      const metric = context.metrics.get(backend.url);
+      if (!metric || metric.requests === 0) {
+        scores.set(backend.url, 50); // Default score for new backends
+        continue;
+      }
+
+      const errorRate = metric.errors / metric.requests;
+      const avgResponseTime = metric.totalTime / metric.requests;
+
+      const errorScore = errorRate * 100 * 0.7;
+      const timeScore = Math.min(avgResponseTime / 100, 50) * 0.3;
+
+      scores.set(backend.url, errorScore + timeScore);
+    }
+
+    // Convert scores to weights (lower score = higher weight)
+    const maxScore = Math.max(...scores.values()) + 1;
+    const weightedBackends = backends.map(backend => ({
+      ...backend,
+      weight: Math.max(1, Math.floor(maxScore - (scores.get(backend.url) ?? 50)))
+    }));
+
+    const selected = weightedRandomSelect(weightedBackends, context.random);
+    return backends.find(backend => backend.url === selected.url) || selected;
+  }
+}
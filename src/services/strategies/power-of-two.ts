@@ -0,0 +1,27 @@
+import type { BackendConfig } from '../../types';
+import type { LoadBalancingStrategy, SelectionContext } from './types';
+import { weightedRandomSelect } from './weighted-random';
+
+// Sample two backends by weight and keep the one with the lower latency-times-error cost
+export class PowerOfTwoStrategy implements LoadBalancingStrategy {
+  select(backends: BackendConfig[], context: SelectionContext): BackendConfig {
+    const first = weightedRandomSelect(backends, context.random);
+    const rest = backends.filter(backend => backend.url !== first.url);
+    if (rest.length === 0) {
+      return first;
+    }
+
+    const second = weightedRandomSelect(rest, context.random);
+    return this.cost(second, context) < this.cost(first, context) ? second : first;
+  }
+
+  private cost(backend: BackendConfig, context: SelectionContext): number {
+    const metric = context.metrics.get(backend.url);
+    if (!metric || metric.requests === 0) {
+      return 0;
+    }
+
+    const errorRate = metric.errors / metric.requests;
+    return metric.ewmaLatency * (1 + errorRate * 10);
+  }
+}
@@ -0,0 +1,37 @@
+import type { BackendConfig } from '../../types';
+import type { LoadBalancingStrategy } from './types';
+
+// Current weights per backend set, kept for the lifetime of the isolate
+const rotations = new Map<string, Map<string, number>>();
+
+// Smooth weighted round-robin: spreads heavier backends evenly instead of in bursts
+export class RoundRobinStrategy implements LoadBalancingStrategy {
+  select(backends: BackendConfig[]): BackendConfig {
+    const key = backends.map(backend => backend.url).sort().join('|');
+    let current = rotations.get(key);
+    if (!current) {
+      current = new Map();
+      rotations.set(key, current);
+    }
+
+    const totalWeight = backends.reduce((sum, backend) => sum + backend.weight, 0);
+    let selected = backends[0];
+    let best = -Infinity;
+
+    for (const backend of backends) {
+      const weight = (current.get(backend.url) ?? 0) + backend.weight;
+      current.set(backend.url, weight);
+      if (weight > best) {
+        best = weight;
+        selected = backend;
+      }
+    }
+
+    current.set(selected.url, best - totalWeight);
+    return selected;
+  }
+
+  static reset(): void {
+    rotations.clear();
+  }
+}
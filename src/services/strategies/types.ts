@@ -0,0 +1,11 @@
+import type { BackendConfig, BackendMetrics, RequestInfo } from '../../types';
+
+export interface SelectionContext {
+  requestInfo: RequestInfo;
+  metrics: Map<string, BackendMetrics>;
+  random: () => number;
+}
+
+export interface LoadBalancingStrategy {
+  select(backends: BackendConfig[], context: SelectionContext): BackendConfig;
+}
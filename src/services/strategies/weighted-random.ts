@@ -0,0 +1,27 @@
+import type { BackendConfig } from '../../types';
+import type { LoadBalancingStrategy, SelectionContext } from './types';
+
+export const weightedRandomSelect = (backends: BackendConfig[], random: () => number): BackendConfig => {
+  const totalWeight = backends.reduce((sum, backend) => sum + backend.weight, 0);
+
+  if (totalWeight === 0) {
+    return backends[0];
+  }
+
+  let remaining = random() * totalWeight;
+
+  for (const backend of backends) {
+    remaining -= backend.weight;
+    if (remaining <= 0) {
+      return backend;
+    }
+  }
+
+  return backends[backends.length - 1];
+};
+
+export class WeightedRandomStrategy implements LoadBalancingStrategy {
+  select(backends: BackendConfig[], context: SelectionContext): BackendConfig {
+    return weightedRandomSelect(backends, context.random);
+  }
+}
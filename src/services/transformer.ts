@@ -0,0 +1,178 @@
+import type {
+  BackendConfig,
+  BodyReplacement,
+  HeaderRules,
+  ProxyConfig,
+  RouteConfig,
+  TraceContext,
+  TransformConfig
+} from '../types';
+import { copyResponse } from '../utils/helpers';
+import { renderTemplate, type TemplateVariables } from '../utils/template';
+
+const MAX_BODY_TRANSFORM = 1024 * 1024;
+const DEFAULT_BODY_CONTENT_TYPES = [
+  'text/html',
+  'text/plain',
+  'text/css',
+  'text/javascript',
+  'application/javascript',
+  'application/json',
+  'application/xml',
+  'text/xml'
+];
+
+// Rules from the global config, the route and the backend are applied in that order
+export class Transformer {
+  private rules: TransformConfig[];
+
+  constructor(rules: (TransformConfig | undefined)[]) {
+    this.rules = rules.filter((rule): rule is TransformConfig => !!rule);
+  }
+
+  static forBackend(config: ProxyConfig, route: RouteConfig | undefined, backend: BackendConfig): Transformer {
+    return new Transformer([config.transform, route?.transform, backend.transform]);
+  }
+
+  static variables(
+    request: Request,
+    backend: BackendConfig,
+    trace?: TraceContext,
+    routeName?: string
+  ): TemplateVariables {
+    const url = new URL(request.url);
+    return {
+      clientIP: request.headers.get('CF-Connecting-IP') || 'unknown',
+      country: request.headers.get('CF-IPCountry') || 'unknown',
+      requestId: trace?.requestId ?? '',
+      traceId: trace?.traceId ?? '',
+      method: request.method,
+      host: url.host,
+      path: url.pathname,
+      route: routeName ?? '',
+      'backend.url': backend.url,
+      'backend.host': new URL(backend.url).host,
+      'backend.region': backend.region
+    };
+  }
+
+  applyRequestHeaders(headers: Headers, variables: TemplateVariables): void {
+    for (const rule of this.rules) {
+      this.applyHeaderRules(headers, rule.request?.headers, variables);
+    }
+  }
+
+  // `request` is the client's request, used to map backend redirects back to the public host
+  async applyResponse(
+    response: Response,
+    request: Request,
+    backend: BackendConfig,
+    route: RouteConfig | undefined,
+    variables: TemplateVariables
+  ): Promise<Response> {
+    const rules = this.rules.flatMap(rule => (rule.response ? [rule.response] : []));
+    if (rules.length === 0) return response;
+
+    let result = copyResponse(response);
+
+    for (const rule of rules) {
+      this.applyHeaderRules(result.headers, rule.headers, variables);
+      if (rule.rewriteLocation) {
+        this.rewriteLocation(result.headers, request, backend, route);
+      }
+      if (rule.cookieDomains) {
+        this.rewriteCookieDomains(result.headers, rule.cookieDomains);
+      }
+    }
+
+    const replacements = rules.flatMap(rule => rule.body || []);
+    if (replacements.length > 0) {
+      const contentTypes = rules.flatMap(rule => rule.bodyContentTypes || []);
+      result = await this.replaceBody(
+        result,
+        replacements,
+        contentTypes.length > 0 ? contentTypes : DEFAULT_BODY_CONTENT_TYPES
+      );
+    }
+
+    return result;
+  }
+
+  private applyHeaderRules(headers: Headers, rules: HeaderRules | undefined, variables: TemplateVariables): void {
+    if (!rules) return;
+
+    for (const name of rules.remove || []) {
+      headers.delete(name);
+    }
+    for (const [name, value] of Object.entries(rules.set || {})) {
+      headers.set(name, renderTemplate(value, variables));
+    }
+    for (const [name, value] of Object.entries(rules.add || {})) {
+      headers.append(name, renderTemplate(value, variables));
+    }
+  }
+
+  // Redirects to the backend's own origin are pointed at the public host, restoring a stripped prefix
+  private rewriteLocation(headers: Headers, request: Request, backend: BackendConfig, route?: RouteConfig): void {
+    const location = headers.get('Location');
+    if (!location) return;
+
+    const backendUrl = new URL(backend.url);
+    const target = new URL(location, backendUrl);
+    if (target.origin !== backendUrl.origin) return;
+
+    const publicUrl = new URL(request.url);
+    target.protocol = publicUrl.protocol;
+    target.host = publicUrl.host;
+
+    const prefix = route?.match.pathPrefix;
+    if (route?.stripPrefix && prefix) {
+      target.pathname = prefix.replace(/\/$/, '') + target.pathname;
+    }
+
+    headers.set('Location', target.toString());
+  }
+
+  // Maps cookie domains, e.g. { "api-us.internal": "example.com" }; `*` matches any domain and an
+  // empty replacement drops the attribute so the cookie becomes host-only
+  private rewriteCookieDomains(headers: Headers, domains: Record<string, string>): void {
+    const cookies = headers.getAll('Set-Cookie');
+    if (cookies.length === 0) return;
+
+    headers.delete('Set-Cookie');
+    for (const cookie of cookies) {
+      headers.append('Set-Cookie', cookie.replace(/;\s*Domain=([^;]*)/i, (attribute, domain: string) => {
+        const current = domain.trim().replace(/^\./, '').toLowerCase();
+        const replacement = domains[current] ?? domains['*'];
+        if (replacement === undefined) return attribute;
+        return replacement === '' ? '' : `; Domain=${replacement}`;
+      }));
+    }
+  }
+
+  // Only bodies with a known, small length are rewritten; streams pass through untouched
+  private async replaceBody(
+    response: Response,
+    replacements: BodyReplacement[],
+    contentTypes: string[]
+  ): Promise<Response> {
+    const contentType = (response.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+    const length = parseInt(response.headers.get('Content-Length') || '', 10);
+    if (!response.body || response.webSocket || !contentTypes.includes(contentType) ||
+        isNaN(length) || length > MAX_BODY_TRANSFORM) {
+      return response;
+    }
+
+    let text = await response.text();
+    for (const { find, replace, regex } of replacements) {
+      text = regex ? text.replace(new RegExp(find, 'g'), replace) : text.split(find).join(replace);
+    }
+
+    // The stored validator no longer describes this body
+    const headers = new Headers(response.headers);
+    headers.delete('Content-Length');
+    headers.delete('ETag');
+
+    return new Response(text, { status: response.status, statusText: response.statusText, headers });
+  }
+}
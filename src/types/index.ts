@@ -1,3 +1,6 @@
+import type { HealthCoordinator } from '../durable-objects/health-coordinator';
+import type { RateLimiter } from '../durable-objects/rate-limiter';
+
 export interface Env {
   ENVIRONMENT: string;
   BACKENDS_CONFIG?: string;
@@ -21,21 +24,398 @@ export interface Env {
   CACHE_MAX_AGE?: string;
   HEALTH_CHECK_INTERVAL?: string;
   CIRCUIT_BREAKER_THRESHOLD?: string;
+  STREAM_IDLE_TIMEOUT?: string;
+  PURGE_TOKEN?: string;
+  CF_ZONE_ID?: string;
+  CF_API_TOKEN?: string;
+  METRICS_TOKEN?: string;
+  METRICS_ALLOWED_IPS?: string;
+  API_KEYS?: string;
+  JWT_SECRET?: string;
+  UPSTREAM_SIGNING_SECRET?: string;
+  CONFIG_KV?: KVNamespace;
+  ADMIN_TOKEN?: string;
+  CONFIG_FAIL_MODE?: string;
+  HEALTH_COORDINATOR?: DurableObjectNamespace<HealthCoordinator>;
+  RATE_LIMITER?: DurableObjectNamespace<RateLimiter>;
+  AFFINITY_SECRET?: string;
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold?: number;
+  openTimeout?: number;
+  halfOpenMaxRequests?: number;
+  successThreshold?: number;
+  errorRateThreshold?: number;
+  errorRateWindow?: number;
+  minimumRequests?: number;
+}
+
+export interface HealthCheckConfig {
+  path?: string;
+  method?: string;
+  headers?: Record<string, string>;
+  expectedStatus?: { min: number; max: number };
+  bodyContains?: string;
+  jsonPath?: string;
+  jsonValue?: string | number | boolean | null;
+  timeout?: number;
+  healthyThreshold?: number;
+  unhealthyThreshold?: number;
+}
+
+export interface BackendTimeouts {
+  connect?: number;
+  total?: number;
+}
+
+export interface HeaderRules {
+  add?: Record<string, string>;
+  set?: Record<string, string>;
+  remove?: string[];
+}
+
+export interface BodyReplacement {
+  find: string;
+  replace: string;
+  regex?: boolean;
+}
+
+export interface TransformConfig {
+  request?: {
+    headers?: HeaderRules;
+  };
+  response?: {
+    headers?: HeaderRules;
+    rewriteLocation?: boolean;
+    cookieDomains?: Record<string, string>;
+    body?: BodyReplacement[];
+    bodyContentTypes?: string[];
+  };
 }
 
 export interface BackendConfig {
   url: string;
   weight: number;
   region: string;
+  timeouts?: BackendTimeouts;
+  circuitBreaker?: CircuitBreakerConfig;
+  healthCheck?: HealthCheckConfig;
+  transform?: TransformConfig;
+}
+
+export type LoadBalancingStrategyName =
+  | 'performance'
+  | 'weighted-random'
+  | 'round-robin'
+  | 'least-latency'
+  | 'power-of-two'
+  | 'consistent-hash';
+
+export interface HashKeyConfig {
+  source: 'header' | 'cookie' | 'ip' | 'path';
+  name?: string;
+}
+
+export interface AffinityConfig {
+  mode: 'cookie' | 'header';
+  name?: string;
+  ttl?: number;
+}
+
+export interface LoadBalancingConfig {
+  geoRouting?: boolean;
+  strategy?: LoadBalancingStrategyName;
+  hashKey?: HashKeyConfig;
+  affinity?: AffinityConfig;
+}
+
+export interface GeoRoutingConfig {
+  countries?: Record<string, string>;
+  colos?: Record<string, string>;
+  continents?: Record<string, string>;
+  regions?: Record<string, { latitude: number; longitude: number }>;
+  fallbacks?: Record<string, string[]>;
+  spilloverLatency?: number;
+}
+
+export interface BackendPool {
+  backends: BackendConfig[];
+  loadBalancing?: LoadBalancingConfig;
+}
+
+export interface RouteMatch {
+  host?: string;
+  pathPrefix?: string;
+  pathRegex?: string;
+  methods?: string[];
+  headers?: Record<string, string>;
+}
+
+export interface BackoffConfig {
+  base?: number;
+  max?: number;
+  jitter?: boolean;
+}
+
+export interface RetryConfig {
+  attempts?: number;
+  maxBackends?: number;
+  bufferLimit?: number;
+  retryNonIdempotent?: boolean;
+  backoff?: BackoffConfig;
+}
+
+export interface RetryBudgetConfig {
+  ratio?: number;
+  minRetriesPerSecond?: number;
+  window?: number;
+}
+
+export interface CacheKeyConfig {
+  ignoreQueryParams?: string[];
+  headers?: string[];
+}
+
+export interface CacheConfig {
+  enabled?: boolean;
+  defaultTtl?: number;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  key?: CacheKeyConfig;
+}
+
+export interface RateLimitKeyConfig {
+  source: 'ip' | 'header' | 'route';
+  name?: string;
+}
+
+export interface RateLimitConfig {
+  name?: string;
+  key: RateLimitKeyConfig;
+  limit: number;
+  window: number;
+  burst?: number;
+}
+
+export type JwtKey = JsonWebKey & { kid?: string };
+
+export interface JwtConfig {
+  algorithms?: ('HS256' | 'RS256')[];
+  jwks?: { keys: JwtKey[] };
+  jwksUrl?: string;
+  issuer?: string | string[];
+  audience?: string | string[];
+  clockSkew?: number;
+  claimHeaders?: Record<string, string>;
+}
+
+export interface AuthConfig {
+  apiKeys?: { header?: string };
+  jwt?: JwtConfig;
+}
+
+export interface CorsConfig {
+  mode?: 'proxy' | 'passthrough';
+  origins?: string[];
+  methods?: string[];
+  allowHeaders?: string[];
+  exposeHeaders?: string[];
+  credentials?: boolean;
+  maxAge?: number;
+}
+
+export interface HedgingConfig {
+  enabled?: boolean;
+  delay?: number;
+  quantile?: number;
+  minDelay?: number;
+  minSamples?: number;
+  maxHedges?: number;
+}
+
+export interface TrafficSplit {
+  name: string;
+  pool: string;
+  percent: number;
+}
+
+export interface MirrorConfig {
+  pool: string;
+  percent: number;
+  name?: string;
+  methods?: string[];
+}
+
+export interface ReleaseConfig {
+  splits?: TrafficSplit[];
+  sticky?: HashKeyConfig;
+  force?: { header?: string; cookie?: string };
+  mirror?: MirrorConfig;
+}
+
+// Why the proxy itself answered instead of a backend
+export type ProxyErrorKind =
+  | 'connect'
+  | 'timeout'
+  | 'circuit-open'
+  | 'too-large'
+  | 'rate-limited'
+  | 'method-not-allowed'
+  | 'bad-request'
+  | 'headers-too-large'
+  | 'forbidden'
+  | 'unauthorized'
+  | 'not-found'
+  | 'not-implemented'
+  | 'upstream'
+  | 'unavailable'
+  | 'config'
+  | 'internal';
+
+export interface ErrorPagesConfig {
+  format?: 'auto' | 'problem' | 'html';
+  typeBase?: string;
+  pages?: Record<string, string>;
+  hideUpstreamErrors?: boolean;
+}
+
+export interface AccessListConfig {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface RequestFilterConfig {
+  methods?: string[];
+  maxBodySize?: number;
+  blockTraversal?: boolean;
+  blockEncodedSlashes?: boolean;
+  maxHeaderCount?: number;
+  maxHeaderSize?: number;
+  ips?: AccessListConfig;
+  countries?: AccessListConfig;
+  userAgents?: AccessListConfig;
+}
+
+export interface RouteConfig {
+  name?: string;
+  match: RouteMatch;
+  pool: string;
+  retry?: RetryConfig;
+  timeout?: number;
+  cache?: CacheConfig;
+  hedging?: HedgingConfig;
+  release?: ReleaseConfig;
+  errors?: ErrorPagesConfig;
+  filter?: RequestFilterConfig;
+  stripPrefix?: boolean;
+  rewrite?: {
+    pattern: string;
+    replacement: string;
+  };
+  rateLimits?: RateLimitConfig[];
+  auth?: AuthConfig | false;
+  cors?: CorsConfig;
+  transform?: TransformConfig;
 }
 
 export interface ProxyConfig {
   backends: BackendConfig[];
+  loadBalancing?: LoadBalancingConfig;
+  geo?: GeoRoutingConfig;
+  pools?: Record<string, BackendPool>;
+  routes?: RouteConfig[];
+  retry?: RetryConfig;
+  cache?: CacheConfig;
+  retryBudget?: RetryBudgetConfig;
+  hedging?: HedgingConfig;
+  release?: ReleaseConfig;
+  errors?: ErrorPagesConfig;
+  filter?: RequestFilterConfig;
+  requestTimeout?: number;
+  deadlineHeader?: string;
+  rateLimits?: RateLimitConfig[];
+  auth?: AuthConfig;
+  cors?: CorsConfig;
+  transform?: TransformConfig;
+  exposeBackendHeaders?: boolean;
+  drained?: string[];
   retryAttempts: number;
   enableCaching: boolean;
   cacheMaxAge: number;
   healthCheckInterval: number;
   circuitBreakerThreshold: number;
+  streamIdleTimeout: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;
+  retryAfter: number;
+}
+
+export interface TraceContext {
+  requestId: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  flags: string;
+}
+
+export interface AccessLogEntry {
+  timestamp: string;
+  requestId: string;
+  traceId: string;
+  method: string;
+  path: string;
+  country: string;
+  route?: string;
+  split?: string;
+  backend?: string;
+  region?: string;
+  attempts: number;
+  fallbacks: number;
+  hedges: number;
+  cacheStatus?: string;
+  upstreamStatus?: number;
+  upstreamLatency?: number;
+  status?: number;
+  duration?: number;
+  error?: string;
+}
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export type ConfigSource = 'kv' | 'env' | 'last-known-good';
+
+export interface ConfigVersion {
+  version: number;
+  createdAt: string;
+  comment?: string;
+  config: Partial<ProxyConfig>;
+}
+
+export interface ConfigPointer {
+  version: number;
+  updatedAt: string;
+}
+
+export interface LoadedConfig {
+  config: ProxyConfig;
+  source: ConfigSource;
+  version?: number;
+  loadedAt: number;
+  error?: string;
 }
 
 export interface RequestInfo {
@@ -43,18 +423,107 @@ export interface RequestInfo {
   path: string;
   clientIP: string;
   country: string;
+  colo?: string;
+  continent?: string;
+  latitude?: number;
+  longitude?: number;
   userAgent: string;
+  headers: Headers;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface OutcomeBucket {
+  start: number;
+  requests: number;
+  errors: number;
 }
 
 export interface BackendHealth {
   isHealthy: boolean;
+  state: CircuitState;
   lastCheck: number;
   consecutiveFailures: number;
-  avgResponseTime: number;
+  openedAt: number;
+  halfOpenInFlight: number;
+  halfOpenSuccesses: number;
+  lastTrialAt: number;
+  probeSuccesses: number;
+  probeFailures: number;
+  window: OutcomeBucket[];
 }
 
+export type StatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx' | 'error';
+
 export interface BackendMetrics {
   requests: number;
   errors: number;
   totalTime: number;
+  ewmaLatency: number;
+  retries: number;
+  hedgeWins: number;
+  hedgeLosses: number;
+  statusClasses: Partial<Record<StatusClass, number>>;
+  latencyHistogram: number[];
+}
+
+export interface CacheCounters {
+  hit: number;
+  miss: number;
+  stale: number;
+}
+
+export interface BackendUpdate {
+  url: string;
+  success: boolean;
+  duration: number;
+  trial?: boolean;
+  status?: number;
+  retries?: number;
+  // The attempt was aborted before it had an outcome; only its trial slot is handed back
+  cancelled?: boolean;
+}
+
+export interface HedgeOutcome {
+  url: string;
+  won: boolean;
+}
+
+export interface SplitUpdate {
+  route: string;
+  split: string;
+  success: boolean;
+  duration: number;
+  status?: number;
+}
+
+export interface SplitMetrics {
+  route: string;
+  split: string;
+  requests: number;
+  errors: number;
+  totalTime: number;
+  statusClasses: Partial<Record<StatusClass, number>>;
+  latencyHistogram: number[];
+}
+
+export interface StateReport {
+  updates: BackendUpdate[];
+  cache?: Partial<CacheCounters>;
+  hedges?: HedgeOutcome[];
+  splits?: SplitUpdate[];
+}
+
+export interface HealthCheckResult {
+  url: string;
+  healthy: boolean;
+  checkedAt: number;
+  reason?: string;
+}
+
+export interface BackendStateSnapshot {
+  health: Record<string, BackendHealth>;
+  metrics: Record<string, BackendMetrics>;
+  cache: CacheCounters;
+  splits: Record<string, SplitMetrics>;
 }
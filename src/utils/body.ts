@@ -0,0 +1,101 @@
+import { ProxyError } from './errors';
+
+export interface RequestBody {
+  // Body to send on the next attempt; an ArrayBuffer can be sent any number of times
+  content: ArrayBuffer | ReadableStream | null;
+  replayable: boolean;
+}
+
+const EMPTY_BODY: RequestBody = { content: null, replayable: true };
+
+// Buffer bodies up to `limit` bytes so they can be replayed; larger bodies stream through once
+export const bufferRequestBody = async (request: Request, limit: number): Promise<RequestBody> => {
+  if (!request.body || request.method === 'GET' || request.method === 'HEAD') {
+    return EMPTY_BODY;
+  }
+
+  const contentLength = request.headers.get('content-length');
+  if (contentLength !== null) {
+    const length = parseInt(contentLength, 10);
+    if (!isNaN(length) && length > limit) {
+      return { content: request.body, replayable: false };
+    }
+    if (!isNaN(length)) {
+      return { content: await request.arrayBuffer(), replayable: true };
+    }
+  }
+
+  // Unknown length: read until the limit, then splice what was read back in front of the rest
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return { content: concatChunks(chunks, size), replayable: true };
+    }
+
+    chunks.push(value);
+    size += value.byteLength;
+
+    if (size > limit) {
+      return { content: replayThenContinue(chunks, reader), replayable: false };
+    }
+  }
+};
+
+const concatChunks = (chunks: Uint8Array[], size: number): ArrayBuffer => {
+  const buffer = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer.buffer;
+};
+
+const replayThenContinue = (
+  chunks: Uint8Array[],
+  reader: ReadableStreamDefaultReader<Uint8Array>
+): ReadableStream<Uint8Array> => {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+};
+
+// Counts bytes as the body streams and fails the stream once it passes `limit`, so uploads without
+// a Content-Length are limited too; `onExceeded` lets the caller tell that failure from an upstream one
+export const limitRequestBody = (request: Request, limit: number, onExceeded: () => void): Request => {
+  if (!request.body || request.method === 'GET' || request.method === 'HEAD') {
+    return request;
+  }
+
+  let size = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      size += chunk.byteLength;
+      if (size > limit) {
+        onExceeded();
+        controller.error(new ProxyError('too-large', `Request body exceeds ${limit} bytes`));
+        return;
+      }
+      controller.enqueue(chunk);
+    }
+  });
+
+  return new Request(request, { body: request.body.pipeThrough(counter) });
+};
@@ -0,0 +1,26 @@
+export type CacheDirectives = Map<string, string | true>;
+
+export const parseCacheControl = (header: string | null): CacheDirectives => {
+  const directives: CacheDirectives = new Map();
+  if (!header) return directives;
+
+  for (const part of header.split(',')) {
+    const [rawName, ...rest] = part.split('=');
+    const name = rawName.trim().toLowerCase();
+    if (!name) continue;
+
+    const value = rest.join('=').trim().replace(/^"|"$/g, '');
+    directives.set(name, value === '' ? true : value);
+  }
+
+  return directives;
+};
+
+// Seconds value of a directive such as `max-age=60`, or undefined when absent or malformed
+export const directiveSeconds = (directives: CacheDirectives, name: string): number | undefined => {
+  const value = directives.get(name);
+  if (typeof value !== 'string') return undefined;
+
+  const seconds = parseInt(value, 10);
+  return isNaN(seconds) || seconds < 0 ? undefined : seconds;
+};
@@ -1,28 +1,131 @@
-export const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS, PATCH',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, Accept, Origin',
-  'Access-Control-Max-Age': '86400'
+import type { CorsConfig, ProxyConfig, RouteConfig } from '../types';
+import { copyResponse } from './helpers';
+
+export const CORS_DEFAULTS = {
+  origins: ['*'],
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin'],
+  maxAge: 86400
 };
 
-export const addCorsHeaders = (response: Response): Response => {
-  const newResponse = new Response(response.body, {
-    status: response.status,
-    statusText: response.statusText,
-    headers: response.headers
-  });
+export const isPreflightRequest = (request: Request): boolean => {
+  return request.method === 'OPTIONS' &&
+    request.headers.has('Origin') &&
+    request.headers.has('Access-Control-Request-Method');
+};
 
-  Object.entries(corsHeaders).forEach(([key, value]) => {
-    newResponse.headers.set(key, value);
-  });
+// Origins may be exact (`https://app.example.com`), `*`, a wildcard host
+// (`https://*.example.com`) or a regular expression wrapped in slashes
+const compileOrigin = (pattern: string): RegExp => {
+  if (pattern.length > 1 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    return new RegExp(pattern.slice(1, -1));
+  }
 
-  newResponse.headers.set('X-Proxy-By', 'Cloudflare-Workers');
-  return newResponse;
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]+');
+  return new RegExp(`^${escaped}$`, 'i');
 };
 
-export const handleOptionsRequest = (): Response => {
-  return new Response(null, {
-    status: 200,
-    headers: corsHeaders
-  });
+const appendVary = (headers: Headers, value: string): void => {
+  const vary = headers.get('Vary');
+  if (!vary) {
+    headers.set('Vary', value);
+  } else if (!vary.split(',').some(item => item.trim().toLowerCase() === value.toLowerCase())) {
+    headers.set('Vary', `${vary}, ${value}`);
+  }
 };
+
+export class CorsPolicy {
+  private config: CorsConfig;
+  private anyOrigin: boolean;
+  private origins: RegExp[];
+
+  constructor(config: CorsConfig = {}) {
+    this.config = config;
+    const origins = config.origins ?? CORS_DEFAULTS.origins;
+    this.anyOrigin = origins.includes('*');
+    this.origins = origins.filter(origin => origin !== '*').map(compileOrigin);
+  }
+
+  // Route settings are layered over the global policy
+  static forRoute(config: ProxyConfig, route?: RouteConfig): CorsPolicy {
+    return new CorsPolicy({ ...config.cors, ...route?.cors });
+  }
+
+  // In passthrough mode preflights go to the backend and its CORS headers reach the client untouched
+  get passthrough(): boolean {
+    return this.config.mode === 'passthrough';
+  }
+
+  preflight(request: Request): Response {
+    const origin = request.headers.get('Origin')!;
+    const method = request.headers.get('Access-Control-Request-Method')!.toUpperCase();
+    const methods = (this.config.methods ?? CORS_DEFAULTS.methods).map(item => item.toUpperCase());
+
+    // A denied preflight gets no CORS headers, which the browser treats as a refusal
+    const headers = new Headers();
+    appendVary(headers, 'Origin');
+    if (!this.allowsOrigin(origin) || !methods.includes(method)) {
+      return new Response(null, { status: 204, headers });
+    }
+
+    this.setOriginHeaders(headers, origin);
+    headers.set('Access-Control-Allow-Methods', methods.join(', '));
+    headers.set('Access-Control-Allow-Headers', this.allowedHeaders(request));
+    headers.set('Access-Control-Max-Age', String(this.config.maxAge ?? CORS_DEFAULTS.maxAge));
+    appendVary(headers, 'Access-Control-Request-Headers');
+
+    return new Response(null, { status: 204, headers });
+  }
+
+  // Replace whatever CORS headers the backend sent with this policy's
+  apply(request: Request, response: Response): Response {
+    if (this.passthrough) return response;
+
+    const newResponse = copyResponse(response);
+    for (const name of [...newResponse.headers.keys()]) {
+      if (name.startsWith('access-control-')) {
+        newResponse.headers.delete(name);
+      }
+    }
+
+    if (this.reflectsOrigin()) {
+      appendVary(newResponse.headers, 'Origin');
+    }
+
+    const origin = request.headers.get('Origin');
+    if (origin && this.allowsOrigin(origin)) {
+      this.setOriginHeaders(newResponse.headers, origin);
+      if (this.config.exposeHeaders?.length) {
+        newResponse.headers.set('Access-Control-Expose-Headers', this.config.exposeHeaders.join(', '));
+      }
+    }
+
+    return newResponse;
+  }
+
+  // `*` never admits credentialed requests; those need an origin from the explicit list
+  private allowsOrigin(origin: string): boolean {
+    return (this.anyOrigin && !this.config.credentials) || this.origins.some(pattern => pattern.test(origin));
+  }
+
+  // Credentialed requests can't use `*`, so the origin is echoed back instead
+  private reflectsOrigin(): boolean {
+    return !this.anyOrigin || !!this.config.credentials;
+  }
+
+  private setOriginHeaders(headers: Headers, origin: string): void {
+    headers.set('Access-Control-Allow-Origin', this.reflectsOrigin() ? origin : '*');
+    if (this.config.credentials) {
+      headers.set('Access-Control-Allow-Credentials', 'true');
+    }
+  }
+
+  // `["*"]` echoes whatever headers the preflight asked for
+  private allowedHeaders(request: Request): string {
+    const allowed = this.config.allowHeaders ?? CORS_DEFAULTS.allowHeaders;
+    if (allowed.includes('*')) {
+      return request.headers.get('Access-Control-Request-Headers') || '';
+    }
+    return allowed.join(', ');
+  }
+}
@@ -0,0 +1,41 @@
+const encoder = new TextEncoder();
+
+const toBase64Url = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  for (const byte of new Uint8Array(buffer)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+export const hmacSign = async (secret: string, data: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+};
+
+export const sha256 = async (data: string): Promise<string> => {
+  return toBase64Url(await crypto.subtle.digest('SHA-256', encoder.encode(data)));
+};
+
+// Constant-time comparison so signature checks don't leak how many characters matched
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
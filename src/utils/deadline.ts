@@ -0,0 +1,21 @@
+// Absolute point in time shared by every attempt of a request
+export class Deadline {
+  constructor(readonly expiresAt: number) {}
+
+  static after(ms: number): Deadline {
+    return new Deadline(Date.now() + ms);
+  }
+
+  remaining(): number {
+    return Math.max(0, this.expiresAt - Date.now());
+  }
+
+  expired(): boolean {
+    return this.remaining() === 0;
+  }
+
+  // The earlier of this deadline and one `ms` from now
+  within(ms?: number): Deadline {
+    return ms === undefined ? this : new Deadline(Math.min(this.expiresAt, Date.now() + ms));
+  }
+}
@@ -0,0 +1,51 @@
+import type { ProxyErrorKind } from '../types';
+import { isConnectError } from './helpers';
+
+export const PROXY_ERROR_STATUS: Record<ProxyErrorKind, number> = {
+  'connect': 502,
+  'upstream': 502,
+  'timeout': 504,
+  'circuit-open': 503,
+  'unavailable': 503,
+  'config': 503,
+  'too-large': 413,
+  'rate-limited': 429,
+  'method-not-allowed': 405,
+  'bad-request': 400,
+  'headers-too-large': 431,
+  'forbidden': 403,
+  'unauthorized': 401,
+  'not-found': 404,
+  'not-implemented': 501,
+  'internal': 500
+};
+
+// A failure with a known cause; `kind` decides the status code instead of the message text
+export class ProxyError extends Error {
+  readonly status: number;
+
+  constructor(readonly kind: ProxyErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ProxyError';
+    this.status = PROXY_ERROR_STATUS[kind];
+  }
+
+  // Errors thrown by fetch or the runtime have no kind; an abort that reaches here was a timeout
+  static from(error: unknown): ProxyError {
+    if (error instanceof ProxyError) {
+      return error;
+    }
+
+    const cause = error instanceof Error ? error : new Error(String(error));
+    if (cause.name === 'AbortError' || cause.name === 'TimeoutError') {
+      return new ProxyError('timeout', cause.message, { cause });
+    }
+    if (isConnectError(cause)) {
+      return new ProxyError('connect', cause.message, { cause });
+    }
+    if (cause.name === 'TypeError') {
+      return new ProxyError('upstream', cause.message, { cause });
+    }
+    return new ProxyError('unavailable', cause.message, { cause });
+  }
+}
@@ -1,17 +1,28 @@
-export const createErrorResponse = (message: string, status: number): Response => {
-  return new Response(JSON.stringify({
-    error: message,
-    status: status,
-    timestamp: new Date().toISOString()
-  }), {
-    status: status,
-    headers: {
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*'
-    }
+// Re-wrap a response so its headers are mutable, keeping an upgraded WebSocket attached
+export const copyResponse = (response: Response): Response => {
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: new Headers(response.headers),
+    webSocket: response.webSocket
   });
 };
 
+export const withProxyHeader = (response: Response): Response => {
+  const newResponse = copyResponse(response);
+  newResponse.headers.set('X-Proxy-By', 'Cloudflare-Workers');
+  return newResponse;
+};
+
+export const isWebSocketUpgrade = (request: Request): boolean => {
+  return request.headers.get('Upgrade')?.toLowerCase() === 'websocket';
+};
+
+export const getBearerToken = (request: Request): string | null => {
+  const match = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
 export const generateRequestId = (): string => {
   return Math.random().toString(36).substring(2, 15);
 };
@@ -23,9 +34,69 @@ export const isNetworkError = (error: Error): boolean => {
          error.message.includes('timeout');
 };
 
-export const getErrorStatus = (error: Error): number => {
-  if (error.message.includes('timeout')) return 504;
-  if (error.message.includes('network')) return 502;
-  if (error.message.includes('aborted')) return 499;
-  return 503;
+// The upstream was never reached, so even non-idempotent requests are safe to re-send;
+// a lost connection doesn't count, the request may already have been received
+export const isConnectError = (error: Error): boolean => {
+  return /\bconnect\b|refused|ENOTFOUND|DNS|unreachable/i.test(error.message);
+};
+
+// Resolve a simple JSON path such as `$.checks[0].status` or `status.db`
+export const readJsonPath = (value: unknown, path: string): unknown => {
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .split(/\.|\[(\d+)\]/)
+    .filter(segment => segment !== undefined && segment !== '');
+
+  let current: any = value;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[segment];
+  }
+
+  return current;
+};
+
+// Deterministic PRNG (mulberry32) so selection strategies can be reproduced in tests
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// 32-bit FNV-1a hash
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const getCookie = (headers: Headers, name: string): string | null => {
+  const cookieHeader = headers.get('Cookie');
+  if (!cookieHeader) return null;
+
+  for (const part of cookieHeader.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    if (part.slice(0, index).trim() === name) {
+      const value = part.slice(index + 1).trim();
+      // Cookies come from the client, so a malformed escape is passed on as sent rather than failing the request
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    }
+  }
+
+  return null;
 };
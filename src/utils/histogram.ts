@@ -0,0 +1,33 @@
+// Upper bounds in milliseconds; the final implicit bucket is +Inf
+export const LATENCY_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+
+export const createHistogram = (): number[] => new Array(LATENCY_BUCKETS.length + 1).fill(0);
+
+// Non-cumulative counts: index i holds observations in (bound[i-1], bound[i]]
+export const observe = (histogram: number[], value: number): void => {
+  let index = LATENCY_BUCKETS.findIndex(bound => value <= bound);
+  if (index === -1) {
+    index = LATENCY_BUCKETS.length;
+  }
+  histogram[index]++;
+};
+
+// Estimate a quantile by linear interpolation inside the bucket that contains it
+export const quantile = (histogram: number[], q: number): number => {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+
+  const rank = q * total;
+  let seen = 0;
+
+  for (let i = 0; i < histogram.length; i++) {
+    if (seen + histogram[i] >= rank && histogram[i] > 0) {
+      const lower = i === 0 ? 0 : LATENCY_BUCKETS[i - 1];
+      const upper = i < LATENCY_BUCKETS.length ? LATENCY_BUCKETS[i] : lower;
+      return lower + (upper - lower) * ((rank - seen) / histogram[i]);
+    }
+    seen += histogram[i];
+  }
+
+  return LATENCY_BUCKETS[LATENCY_BUCKETS.length - 1];
+};
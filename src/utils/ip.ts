@@ -0,0 +1,81 @@
+interface ParsedAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+const parseIPv4 = (address: string): bigint | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+};
+
+const parseIPv6 = (address: string): bigint | null => {
+  // Embedded IPv4 tails such as ::ffff:192.0.2.1 become two hextets
+  let text = address;
+  const lastColon = text.lastIndexOf(':');
+  if (text.includes('.', lastColon)) {
+    const v4 = parseIPv4(text.slice(lastColon + 1));
+    if (v4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const hextets = [...head, ...new Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  let value = 0n;
+  for (const hextet of hextets) {
+    if (!/^[0-9a-f]{1,4}$/i.test(hextet)) return null;
+    value = (value << 16n) | BigInt(parseInt(hextet, 16));
+  }
+  return value;
+};
+
+export const parseAddress = (address: string): ParsedAddress | null => {
+  const v4 = parseIPv4(address.trim());
+  if (v4 !== null) return { version: 4, value: v4 };
+
+  const v6 = parseIPv6(address.trim());
+  return v6 !== null ? { version: 6, value: v6 } : null;
+};
+
+// A single address or a CIDR range whose prefix fits the address family
+export const isIpEntry = (entry: string): boolean => {
+  const [range, prefixText, ...rest] = entry.trim().split('/');
+  const network = parseAddress(range);
+  if (!network || rest.length > 0) return false;
+  if (prefixText === undefined) return true;
+
+  const prefix = Number(prefixText);
+  return /^\d+$/.test(prefixText) && prefix <= (network.version === 4 ? 32 : 128);
+};
+
+// Matches a single address or CIDR range, e.g. `203.0.113.7`, `10.0.0.0/8` or `2001:db8::/32`
+export const ipMatches = (ip: string, entry: string): boolean => {
+  const [range, prefixText] = entry.trim().split('/');
+  const address = parseAddress(ip);
+  const network = parseAddress(range);
+  if (!address || !network || address.version !== network.version) return false;
+
+  const bits = network.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return false;
+
+  const shift = BigInt(bits - prefix);
+  return (address.value >> shift) === (network.value >> shift);
+};
+
+export const ipInList = (ip: string, entries: string[]): boolean => {
+  return entries.some(entry => ipMatches(ip, entry));
+};
@@ -0,0 +1,62 @@
+import { fromBase64Url } from './crypto';
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+export interface DecodedJwt {
+  header: { alg?: string; kid?: string; typ?: string };
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Returns null for anything that is not three base64url JSON segments
+export const decodeJwt = (token: string): DecodedJwt | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const header = JSON.parse(decoder.decode(fromBase64Url(parts[0])));
+    const payload = JSON.parse(decoder.decode(fromBase64Url(parts[1])));
+    if (typeof header !== 'object' || typeof payload !== 'object' || !header || !payload) {
+      return null;
+    }
+
+    return {
+      header,
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: fromBase64Url(parts[2])
+    };
+  } catch (error) {
+    return null;
+  }
+};
+
+export const verifyHs256 = async (jwt: DecodedJwt, secret: string): Promise<boolean> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  return crypto.subtle.verify('HMAC', key, jwt.signature, encoder.encode(jwt.signingInput));
+};
+
+export const verifyRs256 = async (jwt: DecodedJwt, jwk: JsonWebKey): Promise<boolean> => {
+  try {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      jwk,
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, jwt.signature, encoder.encode(jwt.signingInput));
+  } catch (error) {
+    return false;
+  }
+};
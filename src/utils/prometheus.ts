@@ -0,0 +1,79 @@
+import { LATENCY_BUCKETS } from './histogram';
+
+export type Labels = Record<string, string>;
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+export interface HistogramSample {
+  labels: Labels;
+  histogram: number[];
+  sum: number;
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const escapeLabel = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+};
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatValue = (value: number): string => {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+};
+
+// Builds the Prometheus text exposition format, one metric family at a time
+export class PrometheusWriter {
+  private lines: string[] = [];
+
+  counter(name: string, help: string, samples: Sample[]): this {
+    return this.family(name, 'counter', help, samples);
+  }
+
+  gauge(name: string, help: string, samples: Sample[]): this {
+    return this.family(name, 'gauge', help, samples);
+  }
+
+  // Histograms are recorded in milliseconds and exposed in seconds, per Prometheus convention
+  histogram(name: string, help: string, samples: HistogramSample[]): this {
+    this.header(name, 'histogram', help);
+
+    for (const sample of samples) {
+      let cumulative = 0;
+      sample.histogram.forEach((count, i) => {
+        cumulative += count;
+        const le = i < LATENCY_BUCKETS.length ? formatValue(LATENCY_BUCKETS[i] / 1000) : '+Inf';
+        this.lines.push(`${name}_bucket${formatLabels({ ...sample.labels, le })} ${cumulative}`);
+      });
+      this.lines.push(`${name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum / 1000)}`);
+      this.lines.push(`${name}_count${formatLabels(sample.labels)} ${cumulative}`);
+    }
+
+    return this;
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n';
+  }
+
+  private family(name: string, type: string, help: string, samples: Sample[]): this {
+    this.header(name, type, help);
+    for (const sample of samples) {
+      this.lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+    return this;
+  }
+
+  private header(name: string, type: string, help: string): void {
+    this.lines.push(`# HELP ${name} ${help}`);
+    this.lines.push(`# TYPE ${name} ${type}`);
+  }
+}
@@ -0,0 +1,8 @@
+export type TemplateVariables = Record<string, string>;
+
+// Replaces `{name}` and `{backend.region}` style placeholders; unknown ones are left as written
+export const renderTemplate = (template: string, variables: TemplateVariables): string => {
+  return template.replace(/\{([\w.]+)\}/g, (placeholder, name: string) => {
+    return Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder;
+  });
+};
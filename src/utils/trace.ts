@@ -0,0 +1,40 @@
+import type { TraceContext } from '../types';
+import { generateRequestId } from './helpers';
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const REQUEST_ID_PATTERN = /^[\w.:/+=-]{1,128}$/;
+const SAMPLED_FLAGS = '01';
+
+const randomHex = (bytes: number): string => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const isZero = (hex: string): boolean => /^0+$/.test(hex);
+
+// Honor the caller's X-Request-ID and trace ID; this hop always gets a fresh span ID
+export const createTraceContext = (request: Request): TraceContext => {
+  const incomingId = request.headers.get('X-Request-ID')?.trim();
+  const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : generateRequestId();
+
+  const match = request.headers.get('traceparent')?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  const valid = match && match[1] !== 'ff' && !isZero(match[2]) && !isZero(match[3]);
+
+  return {
+    requestId,
+    traceId: valid ? match[2] : randomHex(16),
+    spanId: randomHex(8),
+    parentSpanId: valid ? match[3] : undefined,
+    flags: valid ? match[4] : SAMPLED_FLAGS
+  };
+};
+
+export const formatTraceparent = (trace: TraceContext): string => {
+  return `00-${trace.traceId}-${trace.spanId}-${trace.flags}`;
+};
+
+export const setTraceHeaders = (headers: Headers, trace: TraceContext): void => {
+  headers.set('X-Request-ID', trace.requestId);
+  headers.set('traceparent', formatTraceparent(trace));
+};
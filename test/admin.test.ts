@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Env, ProxyConfig } from '../src/types';
+import { MockBackends } from './helpers/mock-backends';
+import { createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+import { MemoryKV } from './helpers/memory-kv';
+
+const A = 'https://a.backend.test';
+const B = 'https://b.backend.test';
+const TOKEN = 'admin-token';
+
+const document = (...urls: string[]): Partial<ProxyConfig> => ({
+  backends: urls.map(url => ({ url, region: 'us-west', weight: 1 })),
+  retryAttempts: 1,
+  enableCaching: false
+});
+
+const admin = (path: string, init: RequestInit = {}, token = TOKEN) => new Request(`https://proxy.test/__proxy/admin${path}`, {
+  ...init,
+  headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }
+});
+
+describe('admin API', () => {
+  let backends: MockBackends;
+  let kv: MemoryKV;
+  let env: Env;
+
+  beforeEach(() => {
+    resetWorkerState();
+    backends = new MockBackends().install();
+    backends.add(A);
+    backends.add(B);
+    kv = new MemoryKV();
+    env = createEnv(document(A), { ADMIN_TOKEN: TOKEN, CONFIG_KV: kv.asNamespace() });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('is hidden without ADMIN_TOKEN and rejects wrong tokens', async () => {
+    const hidden = await proxyFetch(admin('/config'), createEnv(document(A)));
+    const wrong = await proxyFetch(admin('/config', {}, 'guess'), env);
+
+    expect(hidden.status).toBe(404);
+    expect(wrong.status).toBe(401);
+    expect(backends.totalHits).toBe(0);
+  });
+
+  it('answers errors with problem details', async () => {
+    const response = await proxyFetch(admin('/config/rollback', { method: 'POST', body: '{}' }), env);
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+    expect(response.headers.get('X-Request-ID')).toBeTruthy();
+    expect(await response.json()).toMatchObject({
+      status: 400,
+      code: 'bad-request',
+      detail: 'Provide the "version" to roll back to'
+    });
+  });
+
+  it('publishes a version that takes over proxying', async () => {
+    const published = await proxyFetch(admin('/config?comment=move', { method: 'PUT', body: JSON.stringify(document(B)) }), env);
+    expect(published.status).toBe(201);
+    expect(await published.json()).toMatchObject({ version: 1 });
+
+    const active = await proxyFetch(admin('/config'), env);
+    expect(await active.json()).toMatchObject({ source: 'kv', version: 1 });
+
+    await proxyFetch('https://proxy.test/', env);
+    expect(backends.get(B).hits).toBe(1);
+    expect(backends.get(A).hits).toBe(0);
+  });
+
+  it('reports every problem in an invalid document without storing it', async () => {
+    const response = await proxyFetch(admin('/config', {
+      method: 'PUT',
+      body: JSON.stringify({ backends: [{ url: 'ftp://a.test', region: 'us-west', weight: -1 }] })
+    }), env);
+
+    expect(response.status).toBe(422);
+    const body = await response.json<{ valid: boolean; errors: { path: string }[] }>();
+    expect(body.valid).toBe(false);
+    expect(body.errors.length).toBeGreaterThanOrEqual(2);
+    expect(kv.store.size).toBe(0);
+  });
+
+  it('rolls back by re-publishing an earlier version', async () => {
+    await proxyFetch(admin('/config', { method: 'PUT', body: JSON.stringify(document(A)) }), env);
+    await proxyFetch(admin('/config', { method: 'PUT', body: JSON.stringify(document(B)) }), env);
+
+    const rollback = await proxyFetch(admin('/config/rollback', { method: 'POST', body: JSON.stringify({ version: 1 }) }), env);
+    const versions = await proxyFetch(admin('/config/versions'), env);
+
+    expect(await rollback.json()).toMatchObject({ version: 3, restored: 1 });
+    expect((await versions.json<{ versions: { version: number }[] }>()).versions.map(v => v.version)).toEqual([3, 2, 1]);
+  });
+
+  it('drains a backend so it gets no new requests', async () => {
+    await proxyFetch(admin('/config', { method: 'PUT', body: JSON.stringify(document(A, B)) }), env);
+
+    const drained = await proxyFetch(admin('/backends/drain', { method: 'POST', body: JSON.stringify({ url: A }) }), env);
+    expect(await drained.json()).toEqual({ drained: [A] });
+
+    for (let i = 0; i < 3; i++) {
+      await proxyFetch('https://proxy.test/', env);
+    }
+    expect(backends.get(A).hits).toBe(0);
+    expect(backends.get(B).hits).toBe(3);
+
+    const unknown = await proxyFetch(admin('/backends/drain', { method: 'POST', body: JSON.stringify({ url: 'https://c.test' }) }), env);
+    expect(unknown.status).toBe(404);
+  });
+});
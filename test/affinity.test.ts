@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ProxyConfig } from '../src/types';
+import { SessionAffinity } from '../src/services/affinity';
+import { RoundRobinStrategy } from '../src/services/strategies';
+import { getCookie } from '../src/utils/helpers';
+import { MockBackends } from './helpers/mock-backends';
+import { createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+import { backend } from './helpers/fixtures';
+
+const A = 'https://a.backend.test';
+const B = 'https://b.backend.test';
+const SECRET = { AFFINITY_SECRET: 'affinity-secret' };
+
+const cookieValue = (response: Response): string => response.headers.get('Set-Cookie')!.split(';')[0];
+
+describe('getCookie', () => {
+  it('decodes the named cookie', () => {
+    expect(getCookie(new Headers({ Cookie: 'a=1; session=x%20y' }), 'session')).toBe('x y');
+    expect(getCookie(new Headers({ Cookie: 'a=1' }), 'session')).toBeNull();
+  });
+
+  it('returns malformed values as sent instead of throwing', () => {
+    expect(getCookie(new Headers({ Cookie: 'a=%E0%A4%A' }), 'a')).toBe('%E0%A4%A');
+  });
+});
+
+describe('SessionAffinity', () => {
+  const pool = [backend(A, 'us-west'), backend(B, 'us-west')];
+
+  it('resolves the backend recorded in a token it issued', async () => {
+    const affinity = new SessionAffinity({ mode: 'header' }, 'default', 'secret');
+    const issued = await affinity.apply(new Request('https://proxy.test/'), new Response('ok'), pool[1]);
+    const token = issued.headers.get('X-Proxy-Affinity')!;
+
+    const request = new Request('https://proxy.test/', { headers: { 'X-Proxy-Affinity': token } });
+    expect(await affinity.resolve(request, pool)).toBe(pool[1]);
+  });
+
+  it('ignores tokens signed with another secret or for another pool', async () => {
+    const issuer = new SessionAffinity({ mode: 'header' }, 'default', 'other-secret');
+    const token = (await issuer.apply(new Request('https://proxy.test/'), new Response('ok'), pool[0])).headers.get('X-Proxy-Affinity')!;
+    const request = new Request('https://proxy.test/', { headers: { 'X-Proxy-Affinity': token } });
+
+    expect(await new SessionAffinity({ mode: 'header' }, 'default', 'secret').resolve(request, pool)).toBeUndefined();
+    expect(await new SessionAffinity({ mode: 'header' }, 'uploads', 'other-secret').resolve(request, pool)).toBeUndefined();
+  });
+});
+
+describe('session affinity through the worker', () => {
+  let backends: MockBackends;
+  const config: Partial<ProxyConfig> = {
+    backends: [{ url: A, region: 'us-west', weight: 1 }, { url: B, region: 'us-west', weight: 1 }],
+    loadBalancing: { strategy: 'round-robin', geoRouting: false, affinity: { mode: 'cookie' } },
+    retryAttempts: 1,
+    enableCaching: false
+  };
+
+  beforeEach(() => {
+    resetWorkerState();
+    RoundRobinStrategy.reset();
+    backends = new MockBackends().install();
+    backends.add(A);
+    backends.add(B);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('pins later requests to the backend that served the first one', async () => {
+    const env = createEnv(config, SECRET);
+    const first = await proxyFetch('https://proxy.test/', env);
+    const cookie = cookieValue(first);
+
+    for (let i = 0; i < 3; i++) {
+      const response = await proxyFetch(new Request('https://proxy.test/', { headers: { Cookie: cookie } }), env);
+      expect(response.headers.has('Set-Cookie')).toBe(false);
+    }
+
+    expect(backends.get(A).hits).toBe(4);
+    expect(backends.get(B).hits).toBe(0);
+  });
+
+  it('load balances normally when the cookie is malformed', async () => {
+    const response = await proxyFetch(
+      new Request('https://proxy.test/', { headers: { Cookie: '__proxy_affinity=%E0%A4%A' } }),
+      createEnv(config, SECRET)
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Set-Cookie')).toContain('__proxy_affinity=');
+  });
+});
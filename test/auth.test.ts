@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ProxyConfig } from '../src/types';
+import { AuthGateway } from '../src/services/auth';
+import { MockBackends, respond } from './helpers/mock-backends';
+import { createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+import { signJwt } from './helpers/fixtures';
+
+const BACKEND = 'https://auth.backend.test';
+const SECRETS = { API_KEYS: 'alice:key-alice,bob:key-bob', JWT_SECRET: 'jwt-secret' };
+
+const config = (overrides: Partial<ProxyConfig> = {}): Partial<ProxyConfig> => ({
+  backends: [{ url: BACKEND, region: 'us-west', weight: 1 }],
+  retryAttempts: 1,
+  enableCaching: false,
+  auth: { apiKeys: { header: 'X-API-Key' }, jwt: {} },
+  ...overrides
+});
+
+describe('authentication', () => {
+  let backends: MockBackends;
+
+  beforeEach(() => {
+    resetWorkerState();
+    AuthGateway.reset();
+    backends = new MockBackends().install();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects requests without credentials with a Bearer challenge', async () => {
+    backends.add(BACKEND);
+    const response = await proxyFetch('https://proxy.test/', createEnv(config(), SECRETS));
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+    expect(backends.totalHits).toBe(0);
+  });
+
+  it('rejects unknown API keys', async () => {
+    backends.add(BACKEND);
+    const response = await proxyFetch(
+      new Request('https://proxy.test/', { headers: { 'X-API-Key': 'key-mallory' } }),
+      createEnv(config(), SECRETS)
+    );
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toContain('invalid_token');
+  });
+
+  it('forwards the key name as the subject and drops the key itself', async () => {
+    const upstream = backends.add(BACKEND);
+    const response = await proxyFetch(
+      new Request('https://proxy.test/', { headers: { 'X-API-Key': 'key-alice', 'X-Auth-Subject': 'admin' } }),
+      createEnv(config(), SECRETS)
+    );
+
+    expect(response.status).toBe(200);
+    const forwarded = upstream.requests[0].headers;
+    expect(forwarded.get('X-Auth-Subject')).toBe('alice');
+    expect(forwarded.get('X-Auth-Method')).toBe('api-key');
+    expect(forwarded.has('X-API-Key')).toBe(false);
+  });
+
+  it('verifies HS256 tokens and rejects expired or tampered ones', async () => {
+    const upstream = backends.add(BACKEND);
+    const env = createEnv(config(), SECRETS);
+    const bearer = (token: string) => new Request('https://proxy.test/', { headers: { Authorization: `Bearer ${token}` } });
+
+    const valid = await proxyFetch(bearer(await signJwt('jwt-secret', { sub: 'carol' })), env);
+    const expired = await proxyFetch(bearer(await signJwt('jwt-secret', { sub: 'carol', exp: 1 })), env);
+    const forged = await proxyFetch(bearer(await signJwt('other-secret', { sub: 'carol' })), env);
+
+    expect(valid.status).toBe(200);
+    expect(upstream.requests[0].headers.get('X-Auth-Subject')).toBe('carol');
+    expect(expired.status).toBe(401);
+    expect(forged.status).toBe(401);
+    expect(upstream.hits).toBe(1);
+  });
+
+  it('strips identity headers on routes without auth', async () => {
+    const upstream = backends.add(BACKEND);
+    const routes = [{ match: { pathPrefix: '/public' }, pool: 'default', auth: false as const }];
+    await proxyFetch(
+      new Request('https://proxy.test/public', { headers: { 'X-Auth-Subject': 'admin', 'X-Auth-Method': 'jwt' } }),
+      createEnv(config({ routes }), SECRETS)
+    );
+
+    expect(upstream.requests[0].headers.has('X-Auth-Subject')).toBe(false);
+    expect(upstream.requests[0].headers.has('X-Auth-Method')).toBe(false);
+  });
+
+  describe('caching', () => {
+    const url = () => `https://proxy.test/account-${crypto.randomUUID()}`;
+    const withKey = (target: string, key: string) => new Request(target, { headers: { 'X-API-Key': key } });
+
+    it('does not share responses between API-key callers', async () => {
+      const upstream = backends.add(BACKEND).always(respond(200, 'account data'));
+      const env = createEnv(config({ enableCaching: true }), SECRETS);
+      const target = url();
+
+      const alice = await proxyFetch(withKey(target, 'key-alice'), env);
+      const bob = await proxyFetch(withKey(target, 'key-bob'), env);
+
+      expect(alice.headers.get('X-Cache')).toBe('MISS');
+      expect(bob.headers.get('X-Cache')).toBe('MISS');
+      expect(upstream.hits).toBe(2);
+    });
+
+    it('shares authenticated responses the backend marks public', async () => {
+      const upstream = backends.add(BACKEND).always(respond(200, 'catalog', { 'Cache-Control': 'public, max-age=60' }));
+      const env = createEnv(config({ enableCaching: true }), SECRETS);
+      const target = url();
+
+      await proxyFetch(withKey(target, 'key-alice'), env);
+      const bob = await proxyFetch(withKey(target, 'key-bob'), env);
+
+      expect(bob.headers.get('X-Cache')).toBe('HIT');
+      expect(upstream.hits).toBe(1);
+    });
+  });
+});
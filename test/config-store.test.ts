@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ProxyConfig } from '../src/types';
+import { ConfigStore } from '../src/config/config-store';
+import { MemoryKV } from './helpers/memory-kv';
+
+const document = (url: string): Partial<ProxyConfig> => ({ backends: [{ url, region: 'us-west', weight: 1 }] });
+
+describe('ConfigStore', () => {
+  let kv: MemoryKV;
+  let store: ConfigStore;
+
+  beforeEach(() => {
+    ConfigStore.reset();
+    kv = new MemoryKV();
+    store = new ConfigStore({ ENVIRONMENT: 'test', CONFIG_KV: kv.asNamespace() });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('publishes numbered versions and activates the newest', async () => {
+    await store.publish(document('https://one.test'));
+    const second = await store.publish(document('https://two.test'), 'second');
+
+    expect(second.version).toBe(2);
+    const loaded = await store.refresh();
+    expect(loaded.source).toBe('kv');
+    expect(loaded.config.backends[0].url).toBe('https://two.test');
+    expect((await store.listVersions()).map(version => version.version)).toEqual([2, 1]);
+  });
+
+  it('never overwrites a version the listing has not caught up with', async () => {
+    kv.staleList = true;
+
+    await store.publish(document('https://one.test'));
+    await store.publish(document('https://two.test'));
+    const rollback = await store.rollback(1);
+
+    expect(rollback.version).toBe(3);
+    expect((await store.getVersion(1))!.config.backends![0].url).toBe('https://one.test');
+    expect((await store.getVersion(2))!.config.backends![0].url).toBe('https://two.test');
+  });
+
+  it('skips numbers whose key already exists even when the pointer lags too', async () => {
+    kv.staleList = true;
+    await kv.put('config:version:0000000001', JSON.stringify({ version: 1, createdAt: '', config: document('https://old.test') }));
+
+    const published = await store.publish(document('https://new.test'));
+
+    expect(published.version).toBe(2);
+    expect((await store.getVersion(1))!.config.backends![0].url).toBe('https://old.test');
+  });
+
+  it('keeps serving the last good config when the active version is missing', async () => {
+    await store.publish(document('https://one.test'));
+    await store.refresh();
+    await kv.delete('config:version:0000000001');
+
+    const loaded = await store.refresh();
+
+    expect(loaded.source).toBe('last-known-good');
+    expect(loaded.config.backends[0].url).toBe('https://one.test');
+  });
+
+  it('rejects invalid documents without storing them', async () => {
+    await expect(store.publish({ backends: [] })).rejects.toThrow('Invalid proxy configuration');
+    expect(kv.store.size).toBe(0);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Env } from '../src/types';
+import { ConfigLoader } from '../src/config/backends';
+import { ConfigValidationError, validateConfigDocument } from '../src/config/validator';
+
+const BACKENDS = [
+  { url: 'https://us.backend.test', region: 'us-west', weight: 2 },
+  { url: 'https://eu.backend.test', region: 'europe-west', weight: 1 }
+];
+
+const env = (overrides: Partial<Env> = {}): Env => ({ ENVIRONMENT: 'test', ...overrides });
+
+describe('ConfigLoader', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('loads backends from BACKENDS_CONFIG', () => {
+    const config = ConfigLoader.loadConfig(env({ BACKENDS_CONFIG: JSON.stringify({ backends: BACKENDS, retryAttempts: 4 }) }));
+    expect(config.backends).toEqual(BACKENDS);
+    expect(config.retryAttempts).toBe(4);
+  });
+
+  it('fills unset numbers from environment variables, then defaults', () => {
+    const config = ConfigLoader.loadConfig(env({
+      BACKENDS_CONFIG: JSON.stringify({ backends: BACKENDS, cacheMaxAge: 0 }),
+      RETRY_ATTEMPTS: '5',
+      ENABLE_CACHING: 'false'
+    }));
+    expect(config.retryAttempts).toBe(5);
+    expect(config.enableCaching).toBe(false);
+    expect(config.cacheMaxAge).toBe(0);
+    expect(config.circuitBreakerThreshold).toBe(5);
+  });
+
+  it('builds backends from numbered variables in index order', () => {
+    const config = ConfigLoader.loadConfig(env({
+      BACKEND_2_URL: 'https://eu.backend.test',
+      BACKEND_2_REGION: 'europe-west',
+      BACKEND_1_URL: 'https://us.backend.test',
+      BACKEND_1_REGION: 'us-west',
+      BACKEND_1_WEIGHT: '2'
+    }));
+    expect(config.backends).toEqual(BACKENDS.map(({ url, region, weight }) => ({ url, region, weight })));
+  });
+
+  it('defaults the region and weight of numbered backends', () => {
+    const config = ConfigLoader.loadConfig(env({ BACKEND_1_URL: ' https://us.backend.test ' }));
+    expect(config.backends).toEqual([{ url: 'https://us.backend.test', region: 'unknown', weight: 1 }]);
+  });
+
+  describe('fail mode', () => {
+    it('fails closed outside development', () => {
+      expect(() => ConfigLoader.loadConfig(env({ BACKENDS_CONFIG: '{' }))).toThrow(/BACKENDS_CONFIG is not valid JSON/);
+      expect(() => ConfigLoader.loadConfig(env())).toThrow(/No backend configuration found/);
+    });
+
+    it('falls back to the default config when open', () => {
+      const config = ConfigLoader.loadConfig(env({ BACKENDS_CONFIG: '{', CONFIG_FAIL_MODE: 'open' }));
+      expect(config.backends.map(candidate => candidate.url)).toEqual(['https://httpbin.org']);
+    });
+
+    it('is open by default in development', () => {
+      expect(ConfigLoader.failMode(env({ ENVIRONMENT: 'development' }))).toBe('open');
+      expect(ConfigLoader.failMode(env({ ENVIRONMENT: 'development', CONFIG_FAIL_MODE: 'closed' }))).toBe('closed');
+    });
+  });
+
+  describe('validation', () => {
+    it('reports every problem with its path', () => {
+      const document = {
+        backends: [
+          { url: 'ftp://us.backend.test', region: 'us-west', weight: -1 },
+          { url: 'https://eu.backend.test/', region: 'europe-west', weight: 1 }
+        ],
+        retryAttempts: 'three',
+        routes: [{ match: { pathPrefix: '/api' }, pool: 'missing' }]
+      };
+
+      const paths = validateConfigDocument(document).map(issue => issue.path);
+      expect(paths).toEqual(expect.arrayContaining([
+        'backends[0].url',
+        'backends[0].weight',
+        'backends[1].url',
+        'retryAttempts',
+        'routes[0].pool'
+      ]));
+    });
+
+    it('rejects unknown options', () => {
+      const issues = validateConfigDocument({ backends: BACKENDS, retryAtempts: 2 });
+      expect(issues).toEqual([{ path: 'retryAtempts', message: expect.stringContaining('not a recognised option') }]);
+    });
+
+    it('throws a ConfigValidationError listing the issues', () => {
+      const load = () => ConfigLoader.loadConfig(env({ BACKENDS_CONFIG: JSON.stringify({ backends: [] }) }));
+      expect(load).toThrow(ConfigValidationError);
+      try {
+        load();
+      } catch (error) {
+        expect((error as ConfigValidationError).issues.map(issue => issue.path)).toContain('backends');
+      }
+    });
+
+    it('checks error page keys', () => {
+      const issues = validateConfigDocument({ backends: BACKENDS, errors: { pages: { '5xx': 'ok', 'oops': 'no' } } });
+      expect(issues.map(issue => issue.path)).toEqual(['errors.pages.oops']);
+    });
+
+    it('rejects credentialed CORS with the wildcard origin, including inherited origins', () => {
+      const issues = validateConfigDocument({
+        backends: BACKENDS,
+        cors: { credentials: true },
+        routes: [
+          { match: { pathPrefix: '/a' }, pool: 'default', cors: { origins: ['*'] } },
+          { match: { pathPrefix: '/b' }, pool: 'default', cors: { origins: ['https://app.example.com'], credentials: true } }
+        ]
+      });
+      expect(issues.map(issue => issue.path)).toEqual(['cors.credentials', 'routes[0].cors.credentials']);
+    });
+
+    it('checks request filter entries', () => {
+      const issues = validateConfigDocument({
+        backends: BACKENDS,
+        filter: {
+          methods: ['GET', 'GET /'],
+          ips: { allow: ['10.0.0.0/8', '2001:db8::/32'], deny: ['10.0.0.0/33', 'localhost'] },
+          countries: { deny: ['US', 'USA'] },
+          userAgents: { deny: ['curl', '(bot'] }
+        }
+      });
+      expect(issues.map(issue => issue.path)).toEqual([
+        'filter.userAgents.deny[1]',
+        'filter.methods[1]',
+        'filter.ips.deny[0]',
+        'filter.ips.deny[1]',
+        'filter.countries.deny[1]'
+      ]);
+    });
+
+    it('accepts a valid document', () => {
+      expect(validateConfigDocument({ backends: BACKENDS, loadBalancing: { strategy: 'round-robin' } })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ProxyConfig } from '../src/types';
+import { ProxyHandler } from '../src/handlers/proxy-handler';
+import { CorsPolicy } from '../src/utils/cors';
+import { MockBackends, respond } from './helpers/mock-backends';
+import { createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+
+const BACKEND = 'https://cors.backend.test';
+
+const preflight = (origin: string, method = 'PUT') => new Request('https://proxy.test/items', {
+  method: 'OPTIONS',
+  headers: { Origin: origin, 'Access-Control-Request-Method': method, 'Access-Control-Request-Headers': 'X-Custom' }
+});
+
+const fromOrigin = (origin: string) => new Request('https://proxy.test/items', { headers: { Origin: origin } });
+
+describe('CorsPolicy', () => {
+  it('answers with * by default', () => {
+    const response = new CorsPolicy().apply(fromOrigin('https://any.example'), new Response('ok'));
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.has('Access-Control-Allow-Credentials')).toBe(false);
+  });
+
+  it('echoes listed origins, including wildcard hosts and patterns, and varies on Origin', () => {
+    const policy = new CorsPolicy({ origins: ['https://*.example.com', '/^https://pr-\\d+\\.preview\\.dev$/'] });
+
+    for (const origin of ['https://app.example.com', 'https://pr-42.preview.dev']) {
+      const response = policy.apply(fromOrigin(origin), new Response('ok'));
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe(origin);
+      expect(response.headers.get('Vary')).toBe('Origin');
+    }
+    expect(policy.apply(fromOrigin('https://evil.test'), new Response('ok')).headers.has('Access-Control-Allow-Origin')).toBe(false);
+  });
+
+  it('never grants credentials to arbitrary origins through *', () => {
+    const policy = new CorsPolicy({ origins: ['*', 'https://app.example.com'], credentials: true });
+
+    const evil = policy.apply(fromOrigin('https://evil.test'), new Response('ok'));
+    const app = policy.apply(fromOrigin('https://app.example.com'), new Response('ok'));
+
+    expect(evil.headers.has('Access-Control-Allow-Origin')).toBe(false);
+    expect(evil.headers.has('Access-Control-Allow-Credentials')).toBe(false);
+    expect(app.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+    expect(app.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+  });
+
+  it('answers allowed preflights and refuses others without CORS headers', () => {
+    const policy = new CorsPolicy({ origins: ['https://app.example.com'], allowHeaders: ['*'], maxAge: 600 });
+
+    const allowed = policy.preflight(preflight('https://app.example.com'));
+    expect(allowed.status).toBe(204);
+    expect(allowed.headers.get('Access-Control-Allow-Headers')).toBe('X-Custom');
+    expect(allowed.headers.get('Access-Control-Max-Age')).toBe('600');
+
+    const badMethod = policy.preflight(preflight('https://app.example.com', 'TRACE'));
+    const badOrigin = policy.preflight(preflight('https://evil.test'));
+    expect(badMethod.headers.has('Access-Control-Allow-Origin')).toBe(false);
+    expect(badOrigin.headers.has('Access-Control-Allow-Origin')).toBe(false);
+  });
+
+  it('replaces backend CORS headers unless in passthrough mode', () => {
+    const upstream = () => new Response('ok', { headers: { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Credentials': 'true' } });
+    const policy = new CorsPolicy({ origins: ['https://app.example.com'] });
+
+    const replaced = policy.apply(fromOrigin('https://evil.test'), upstream());
+    expect(replaced.headers.has('Access-Control-Allow-Origin')).toBe(false);
+    expect(replaced.headers.has('Access-Control-Allow-Credentials')).toBe(false);
+
+    const passed = new CorsPolicy({ mode: 'passthrough' }).apply(fromOrigin('https://evil.test'), upstream());
+    expect(passed.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+  });
+});
+
+describe('CORS through the worker', () => {
+  let backends: MockBackends;
+  const config = (overrides: Partial<ProxyConfig> = {}): Partial<ProxyConfig> => ({
+    backends: [{ url: BACKEND, region: 'us-west', weight: 1 }],
+    retryAttempts: 1,
+    enableCaching: false,
+    cors: { origins: ['https://app.example.com'], credentials: true },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    resetWorkerState();
+    backends = new MockBackends().install();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('answers preflights at the edge without reaching a backend', async () => {
+    backends.add(BACKEND);
+    const response = await proxyFetch(preflight('https://app.example.com'), createEnv(config()));
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+    expect(response.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+    expect(backends.totalHits).toBe(0);
+  });
+
+  it('forwards preflights on passthrough routes', async () => {
+    const upstream = backends.add(BACKEND).always(respond(200, '', { 'Access-Control-Allow-Origin': 'https://legacy.test' }));
+    const routes = [{ match: { pathPrefix: '/items' }, pool: 'default', cors: { mode: 'passthrough' as const } }];
+
+    const response = await proxyFetch(preflight('https://legacy.test'), createEnv(config({ routes })));
+
+    expect(upstream.hits).toBe(1);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://legacy.test');
+  });
+
+  it('strips backend CORS headers for origins outside the policy', async () => {
+    backends.add(BACKEND).always(respond(200, 'ok', { 'Access-Control-Allow-Origin': '*' }));
+    const response = await proxyFetch(fromOrigin('https://evil.test'), createEnv(config()));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.has('Access-Control-Allow-Origin')).toBe(false);
+  });
+
+  it('applies the configured policy to internal errors', async () => {
+    vi.spyOn(ProxyHandler.prototype, 'handleRequest').mockRejectedValue(new Error('boom'));
+    const env = createEnv(config());
+
+    const allowed = await proxyFetch(fromOrigin('https://app.example.com'), env);
+    const other = await proxyFetch(fromOrigin('https://evil.test'), env);
+
+    expect(allowed.status).toBe(500);
+    expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+    expect(allowed.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+    expect(other.status).toBe(500);
+    expect(other.headers.has('Access-Control-Allow-Origin')).toBe(false);
+  });
+
+  it('grants no origin when the configuration is unavailable', async () => {
+    const response = await proxyFetch(fromOrigin('https://app.example.com'), createEnv({ backends: [] }));
+
+    expect(response.status).toBe(503);
+    expect(response.headers.has('Access-Control-Allow-Origin')).toBe(false);
+  });
+});
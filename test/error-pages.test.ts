@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { ConfigLoader } from '../src/config/backends';
+import { ErrorPages } from '../src/services/error-pages';
+import { ProxyError } from '../src/utils/errors';
+
+const BROWSER_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8';
+
+const request = (accept?: string) => new Request('https://proxy.test/', {
+  headers: accept ? { Accept: accept } : {}
+});
+
+const timeout = new ProxyError('timeout', 'Upstream timeout after 20ms from https://internal.backend.test');
+
+describe('ErrorPages', () => {
+  describe('problem details', () => {
+    it('are the default for API clients', async () => {
+      const response = new ErrorPages().respond(request('application/json'), timeout, 'req-1');
+
+      expect(response.status).toBe(504);
+      expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+      expect(await response.json()).toEqual({
+        type: 'about:blank',
+        title: 'Gateway Timeout',
+        status: 504,
+        detail: 'The upstream server did not answer in time.',
+        code: 'timeout',
+        requestId: 'req-1'
+      });
+    });
+
+    it('are used when the client sends no Accept header', () => {
+      const response = new ErrorPages().respond(request(), timeout, 'req-1');
+      expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+    });
+
+    it('use typeBase for the problem type', async () => {
+      const pages = new ErrorPages({ typeBase: 'https://errors.example.com/proxy/' });
+      const body = await pages.respond(request(), timeout, 'req-1').json<{ type: string }>();
+      expect(body.type).toBe('https://errors.example.com/proxy/timeout');
+    });
+
+    it('pass client-facing messages through but hide upstream details', async () => {
+      const pages = new ErrorPages();
+      const tooLarge = await pages.respond(request(), new ProxyError('too-large', 'Request too large'), 'r').json<{ detail: string }>();
+      const upstream = await pages.respond(request(), timeout, 'r').text();
+
+      expect(tooLarge.detail).toBe('Request too large');
+      expect(upstream).not.toContain('internal.backend.test');
+    });
+  });
+
+  describe('HTML pages', () => {
+    it('are served to browsers', async () => {
+      const response = new ErrorPages().respond(request(BROWSER_ACCEPT), timeout, 'req-1');
+
+      expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+      const html = await response.text();
+      expect(html).toContain('504 Gateway Timeout');
+      expect(html).toContain('req-1');
+    });
+
+    it('prefer JSON when the client ranks it higher', () => {
+      const response = new ErrorPages().respond(request('text/html;q=0.5, application/json'), timeout, 'r');
+      expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+    });
+
+    it('are chosen by exact status, then class, then default', async () => {
+      const pages = new ErrorPages({
+        pages: { '504': 'timeout page', '5xx': 'server page {status}', 'default': 'other page' }
+      });
+      const render = (error: ProxyError) => pages.respond(request(BROWSER_ACCEPT), error, 'r').text();
+
+      expect(await render(timeout)).toBe('timeout page');
+      expect(await render(new ProxyError('circuit-open', 'down'))).toBe('server page 503');
+      expect(await render(new ProxyError('rate-limited', 'slow down'))).toBe('other page');
+    });
+
+    it('escape template variables', async () => {
+      const pages = new ErrorPages({ pages: { default: '<p>{requestId}</p>' } });
+      const html = await pages.respond(request(BROWSER_ACCEPT), timeout, '<script>').text();
+      expect(html).toBe('<p>&lt;script&gt;</p>');
+    });
+
+    it('can be forced regardless of Accept', () => {
+      const response = new ErrorPages({ format: 'html' }).respond(request('application/json'), timeout, 'r');
+      expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    });
+  });
+
+  describe('mask', () => {
+    const upstream = () => new Response('stack trace at db.internal:5432', {
+      status: 500,
+      headers: { 'Retry-After': '5', 'X-Internal': 'yes' }
+    });
+
+    it('replaces upstream 5xx bodies when hideUpstreamErrors is set', async () => {
+      const masked = new ErrorPages({ hideUpstreamErrors: true }).mask(request(), upstream(), 'req-1');
+
+      expect(masked.status).toBe(500);
+      expect(masked.headers.get('Retry-After')).toBe('5');
+      expect(masked.headers.has('X-Internal')).toBe(false);
+      expect(await masked.json()).toMatchObject({ code: 'upstream', requestId: 'req-1' });
+    });
+
+    it('leaves responses alone otherwise', () => {
+      const error = upstream();
+      expect(new ErrorPages().mask(request(), error, 'r')).toBe(error);
+
+      const ok = new Response('fine');
+      expect(new ErrorPages({ hideUpstreamErrors: true }).mask(request(), ok, 'r')).toBe(ok);
+    });
+  });
+
+  it('merges route settings over the global ones', async () => {
+    const config = ConfigLoader.fromDocument({
+      backends: [{ url: 'https://us.backend.test', region: 'us-west', weight: 1 }],
+      errors: { format: 'html', pages: { '502': 'global 502', '504': 'global 504' } }
+    }, { ENVIRONMENT: 'test' });
+    const route = { match: {}, pool: 'default', errors: { pages: { '504': 'route 504' } } };
+    const pages = ErrorPages.forRoute(config, route);
+
+    expect(await pages.respond(request(), timeout, 'r').text()).toBe('route 504');
+    expect(await pages.respond(request(), new ProxyError('upstream', 'bad'), 'r').text()).toBe('global 502');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { ProxyError, PROXY_ERROR_STATUS } from '../src/utils/errors';
+
+describe('ProxyError', () => {
+  it.each([
+    ['connect', 502],
+    ['timeout', 504],
+    ['circuit-open', 503],
+    ['too-large', 413],
+    ['rate-limited', 429],
+    ['method-not-allowed', 405],
+    ['bad-request', 400],
+    ['headers-too-large', 431],
+    ['forbidden', 403]
+  ] as const)('maps %s to %i', (kind, status) => {
+    expect(new ProxyError(kind, 'failed').status).toBe(status);
+    expect(PROXY_ERROR_STATUS[kind]).toBe(status);
+  });
+
+  describe('from', () => {
+    it('keeps typed errors', () => {
+      const error = new ProxyError('circuit-open', 'All backends failed');
+      expect(ProxyError.from(error)).toBe(error);
+    });
+
+    it('treats an abort as a gateway timeout, not 499', () => {
+      const error = ProxyError.from(new DOMException('The operation was aborted', 'AbortError'));
+      expect(error.kind).toBe('timeout');
+      expect(error.status).toBe(504);
+    });
+
+    it('recognises connect failures', () => {
+      expect(ProxyError.from(new TypeError('connect ECONNREFUSED 10.0.0.1:443')).kind).toBe('connect');
+      expect(ProxyError.from(new Error('DNS lookup failed')).kind).toBe('connect');
+    });
+
+    it('treats other fetch failures as a bad upstream', () => {
+      const error = ProxyError.from(new TypeError('Network connection lost.'));
+      expect(error.kind).toBe('upstream');
+      expect(error.status).toBe(502);
+    });
+
+    it('keeps the original error as the cause', () => {
+      const cause = new Error('something broke');
+      const error = ProxyError.from(cause);
+      expect(error.kind).toBe('unavailable');
+      expect(error.cause).toBe(cause);
+    });
+  });
+});
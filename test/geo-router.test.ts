@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { GeoRouter } from '../src/services/geo-router';
+import { LoadBalancer } from '../src/services/load-balancer';
+import { createSeededRandom } from '../src/utils/helpers';
+import { backend, createMetrics, createRequestInfo } from './helpers/fixtures';
+
+// The built-in country map; explicit config and nearest-region routing take precedence over it
+const COUNTRY_REGIONS: [string, string][] = [
+  ['CN', 'asia-east'], ['HK', 'asia-east'], ['TW', 'asia-east'],
+  ['JP', 'asia-northeast'], ['KR', 'asia-northeast'],
+  ['SG', 'asia-southeast'], ['MY', 'asia-southeast'], ['TH', 'asia-southeast'],
+  ['ID', 'asia-southeast'], ['PH', 'asia-southeast'], ['VN', 'asia-southeast'],
+  ['IN', 'asia-south'], ['PK', 'asia-south'], ['BD', 'asia-south'],
+  ['US', 'us-west'], ['CA', 'us-west'], ['MX', 'americas-north'],
+  ['BR', 'americas-south'], ['AR', 'americas-south'], ['CL', 'americas-south'],
+  ['GB', 'europe-west'], ['DE', 'europe-west'], ['FR', 'europe-west'],
+  ['NL', 'europe-west'], ['IT', 'europe-west'], ['ES', 'europe-west'],
+  ['PL', 'europe-east'], ['CZ', 'europe-east'], ['RU', 'europe-east'],
+  ['AU', 'oceania'], ['NZ', 'oceania']
+];
+
+const REGIONS = [...new Set(COUNTRY_REGIONS.map(([, region]) => region))];
+
+// One backend per region plus a heavily weighted global one that only wins without a regional match
+const POOL = [
+  ...REGIONS.map(region => backend(`https://${region}.backend.test`, region)),
+  backend('https://global.backend.test', 'global', 100)
+];
+
+describe('GeoRouter', () => {
+  describe('built-in country map', () => {
+    it.each(COUNTRY_REGIONS)('maps %s to %s', (country, region) => {
+      expect(new GeoRouter().resolveRegion(createRequestInfo({ country }))).toBe(region);
+    });
+
+    it.each(COUNTRY_REGIONS)('sends clients in %s to the %s backend', (country, region) => {
+      const balancer = new LoadBalancer(undefined, createSeededRandom(1));
+      const selected = balancer.selectBackend(POOL, createRequestInfo({ country }));
+      expect(selected.region).toBe(region);
+    });
+
+    it('matches country codes case-insensitively', () => {
+      expect(new GeoRouter().resolveRegion(createRequestInfo({ country: 'jp' }))).toBe('asia-northeast');
+    });
+  });
+
+  describe('resolveRegion', () => {
+    it('falls back to the continent default for unmapped countries', () => {
+      const router = new GeoRouter();
+      expect(router.resolveRegion(createRequestInfo({ country: 'ZA', continent: 'AF' }))).toBe('europe-west');
+      expect(router.resolveRegion(createRequestInfo({ country: 'PE', continent: 'SA' }))).toBe('americas-south');
+    });
+
+    it('returns undefined when neither country nor continent is known', () => {
+      expect(new GeoRouter().resolveRegion(createRequestInfo())).toBeUndefined();
+    });
+
+    it('prefers configured countries, then colos, over the built-in map', () => {
+      const router = new GeoRouter({ countries: { jp: 'asia-east' }, colos: { lhr: 'europe-north' } });
+      expect(router.resolveRegion(createRequestInfo({ country: 'JP', colo: 'NRT' }))).toBe('asia-east');
+      expect(router.resolveRegion(createRequestInfo({ country: 'US', colo: 'LHR' }))).toBe('europe-north');
+    });
+
+    it('overrides continent defaults from config', () => {
+      const router = new GeoRouter({ continents: { AF: 'africa-south' } });
+      expect(router.resolveRegion(createRequestInfo({ country: 'ZA', continent: 'AF' }))).toBe('africa-south');
+    });
+
+    it('picks the nearest region with coordinates before the built-in map', () => {
+      const router = new GeoRouter({
+        regions: {
+          'us-east': { latitude: 39.0, longitude: -77.5 },
+          'us-west': { latitude: 45.6, longitude: -121.2 }
+        }
+      });
+      // New York
+      const info = createRequestInfo({ country: 'US', latitude: 40.7, longitude: -74.0 });
+      expect(router.resolveRegion(info)).toBe('us-east');
+    });
+  });
+
+  describe('regionChain', () => {
+    it('follows configured fallbacks', () => {
+      const router = new GeoRouter({ fallbacks: { 'asia-northeast': ['asia-east', 'us-west'] } });
+      expect(router.regionChain(createRequestInfo({ country: 'JP' }))).toEqual(['asia-northeast', 'asia-east', 'us-west']);
+    });
+
+    it('orders the remaining regions by distance without configured fallbacks', () => {
+      const router = new GeoRouter({
+        regions: {
+          'europe-west': { latitude: 50.1, longitude: 8.7 },
+          'us-east': { latitude: 39.0, longitude: -77.5 },
+          'asia-east': { latitude: 22.3, longitude: 114.2 }
+        }
+      });
+      // London
+      const info = createRequestInfo({ country: 'GB', latitude: 51.5, longitude: -0.1 });
+      expect(router.regionChain(info)).toEqual(['europe-west', 'us-east', 'asia-east']);
+    });
+  });
+
+  describe('select', () => {
+    const backends = [
+      backend('https://jp.backend.test', 'asia-northeast'),
+      backend('https://hk.backend.test', 'asia-east'),
+      backend('https://us.backend.test', 'us-west')
+    ];
+
+    it('walks the fallback chain when the client region has no backends', () => {
+      const router = new GeoRouter({ fallbacks: { 'asia-southeast': ['asia-east'] } });
+      const selected = router.select(backends, createRequestInfo({ country: 'SG' }), new Map());
+      expect(selected.map(candidate => candidate.url)).toEqual(['https://hk.backend.test']);
+    });
+
+    it('returns nothing when no region in the chain has backends', () => {
+      const selected = new GeoRouter().select(backends, createRequestInfo({ country: 'DE' }), new Map());
+      expect(selected).toEqual([]);
+    });
+
+    it('spills over from a region that is slower than the threshold', () => {
+      const router = new GeoRouter({ fallbacks: { 'asia-northeast': ['asia-east'] }, spilloverLatency: 200 });
+      const metrics = new Map([
+        ['https://jp.backend.test', createMetrics(10, 900)]
+      ]);
+      const selected = router.select(backends, createRequestInfo({ country: 'JP' }), metrics);
+      expect(selected.map(candidate => candidate.url)).toEqual(['https://hk.backend.test']);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import { createExecutionContext, createScheduledController, waitOnExecutionContext } from 'cloudflare:test';
+import worker from '../src/index';
+import type { BackendConfig, Env, HealthCheckConfig } from '../src/types';
+import { ConfigStore } from '../src/config/config-store';
+import { LocalCoordinator } from '../src/services/coordinator';
+import { MockBackends, respond } from './helpers/mock-backends';
+import { createEnv, resetWorkerState } from './helpers/worker';
+
+const US_A = 'https://us-a.backend.test';
+const US_B = 'https://us-b.backend.test';
+const US_C = 'https://us-c.backend.test';
+
+const backend = (url: string, healthCheck?: HealthCheckConfig): BackendConfig => ({ url, region: 'us-west', weight: 1, healthCheck });
+
+// One probe round per cron tick
+const envFor = (backends: BackendConfig[]) => createEnv({ backends, healthCheckInterval: 60000 });
+
+const runScheduled = async (env: Env): Promise<void> => {
+  const ctx = createExecutionContext();
+  await worker.scheduled(createScheduledController({ cron: '*/1 * * * *' }), env, ctx);
+  await waitOnExecutionContext(ctx);
+};
+
+const circuitState = async (env: Env, url: string) => {
+  const { health } = await new LocalCoordinator(await ConfigStore.load(env)).getSnapshot();
+  return health[url]?.state;
+};
+
+describe('scheduled health checks', () => {
+  let backends: MockBackends;
+  let warn: MockInstance<typeof console.warn>;
+
+  beforeEach(() => {
+    resetWorkerState();
+    backends = new MockBackends().install();
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('probes every configured backend once per round, pool backends included', async () => {
+    const probed = [US_A, US_B, US_C].map(url => backends.add(url));
+    const env = createEnv({
+      backends: [backend(US_A), backend(US_B)],
+      pools: { api: { backends: [backend(US_C)] } },
+      healthCheckInterval: 60000
+    });
+
+    await runScheduled(env);
+
+    expect(probed.map(upstream => upstream.hits)).toEqual([1, 1, 1]);
+    expect(await circuitState(env, US_C)).toBe('closed');
+  });
+
+  it('sends HEAD /health by default and the configured path, method and headers otherwise', async () => {
+    const plain = backends.add(US_A);
+    const custom = backends.add(US_B);
+    const env = envFor([
+      backend(US_A),
+      backend(US_B, { path: '/ready', method: 'GET', headers: { Authorization: 'Bearer probe' } })
+    ]);
+
+    await runScheduled(env);
+
+    expect(plain.requests.map(({ method, url }) => [method, url])).toEqual([['HEAD', `${US_A}/health`]]);
+    expect(custom.requests.map(({ method, url }) => [method, url])).toEqual([['GET', `${US_B}/ready`]]);
+    expect(custom.requests[0].headers.get('Authorization')).toBe('Bearer probe');
+  });
+
+  it('fails probes that miss the expected status or body', async () => {
+    backends.add(US_A).always(respond(200, '{"status":"ok"}'));
+    backends.add(US_B).always(respond(200, '{"status":"degraded"}'));
+    backends.add(US_C).always(respond(204));
+    const env = envFor([
+      backend(US_A, { method: 'GET', jsonPath: '$.status', jsonValue: 'ok', bodyContains: 'status', unhealthyThreshold: 1 }),
+      backend(US_B, { method: 'GET', jsonPath: '$.status', jsonValue: 'ok', unhealthyThreshold: 1 }),
+      backend(US_C, { expectedStatus: { min: 200, max: 200 }, unhealthyThreshold: 1 })
+    ]);
+
+    await runScheduled(env);
+
+    expect(await circuitState(env, US_A)).toBe('closed');
+    expect(await circuitState(env, US_B)).toBe('open');
+    expect(await circuitState(env, US_C)).toBe('open');
+    expect(warn).toHaveBeenCalledWith(`Health check failed for ${US_B}: Unexpected value at $.status: "degraded"`);
+    expect(warn).toHaveBeenCalledWith(`Health check failed for ${US_C}: Unexpected status 204`);
+  });
+
+  it('opens the circuit after unhealthyThreshold failures and half-opens it after healthyThreshold passes', async () => {
+    backends.add(US_A).next(respond(503), respond(503), respond(200));
+    const env = envFor([backend(US_A, { unhealthyThreshold: 2, healthyThreshold: 2 })]);
+
+    await runScheduled(env);
+    expect(await circuitState(env, US_A)).toBe('closed');
+
+    await runScheduled(env);
+    expect(await circuitState(env, US_A)).toBe('open');
+
+    await runScheduled(env);
+    expect(await circuitState(env, US_A)).toBe('open');
+
+    await runScheduled(env);
+    expect(await circuitState(env, US_A)).toBe('half-open');
+  });
+});
@@ -0,0 +1,45 @@
+import type { BackendConfig, BackendMetrics, RequestInfo } from '../../src/types';
+import { createHistogram, observe } from '../../src/utils/histogram';
+import { hmacSign } from '../../src/utils/crypto';
+
+export const createRequestInfo = (overrides: Partial<RequestInfo> = {}): RequestInfo => ({
+  method: 'GET',
+  path: '/',
+  clientIP: '203.0.113.10',
+  country: 'unknown',
+  userAgent: 'vitest',
+  headers: new Headers(),
+  ...overrides
+});
+
+export const backend = (url: string, region: string, weight = 1): BackendConfig => ({ url, region, weight });
+
+// Metrics for `requests` requests that all took `latency` ms
+export const createMetrics = (requests: number, latency: number, errors = 0): BackendMetrics => {
+  const latencyHistogram = createHistogram();
+  for (let i = 0; i < requests; i++) {
+    observe(latencyHistogram, latency);
+  }
+  return {
+    requests,
+    errors,
+    totalTime: requests * latency,
+    ewmaLatency: latency,
+    retries: 0,
+    hedgeWins: 0,
+    hedgeLosses: 0,
+    statusClasses: {},
+    latencyHistogram
+  };
+};
+
+const base64Url = (value: object): string => {
+  return btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// An HS256 token for `claims`, valid for an hour unless `exp` is given
+export const signJwt = async (secret: string, claims: Record<string, unknown>): Promise<string> => {
+  const payload = { exp: Math.floor(Date.now() / 1000) + 3600, ...claims };
+  const signingInput = `${base64Url({ alg: 'HS256', typ: 'JWT' })}.${base64Url(payload)}`;
+  return `${signingInput}.${await hmacSign(secret, signingInput)}`;
+};
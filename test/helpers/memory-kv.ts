@@ -0,0 +1,36 @@
+// In-memory KV namespace; `staleList` makes list() miss recent writes the way KV listings can
+export class MemoryKV {
+  readonly store = new Map<string, string>();
+  staleList = false;
+  private listed = new Set<string>();
+
+  async get(key: string, type?: 'text' | 'json'): Promise<unknown> {
+    const value = this.store.get(key);
+    if (value === undefined) return null;
+    return type === 'json' ? JSON.parse(value) : value;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+    if (!this.staleList) {
+      this.listed.add(key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+    this.listed.delete(key);
+  }
+
+  async list(options: { prefix?: string } = {}): Promise<KVNamespaceListResult<unknown>> {
+    const keys = [...this.listed]
+      .filter(name => this.store.has(name) && name.startsWith(options.prefix ?? ''))
+      .sort()
+      .map(name => ({ name }));
+    return { keys, list_complete: true, cacheStatus: null };
+  }
+
+  asNamespace(): KVNamespace {
+    return this as unknown as KVNamespace;
+  }
+}
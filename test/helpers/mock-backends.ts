@@ -0,0 +1,186 @@
+import { vi, type MockInstance } from 'vitest';
+
+// What a mock backend does with one request
+export type MockBehaviour =
+  | { type: 'respond'; status: number; body: string; headers: Record<string, string>; delay: number }
+  | { type: 'drop'; delay: number }
+  | { type: 'hang' }
+  | { type: 'stall'; chunks: string[] }
+  | { type: 'websocket' };
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Headers;
+  body: string;
+}
+
+export const respond = (status = 200, body = 'ok', headers: Record<string, string> = {}): MockBehaviour => {
+  return { type: 'respond', status, body, headers, delay: 0 };
+};
+
+export const slow = (delay: number, status = 200, body = 'ok'): MockBehaviour => {
+  return { type: 'respond', status, body, headers: {}, delay };
+};
+
+// The connection is lost before a response arrives, the way workerd reports it
+export const drop = (delay = 0): MockBehaviour => ({ type: 'drop', delay });
+
+// Never answers; only the proxy's own timeouts end the request
+export const hang = (): MockBehaviour => ({ type: 'hang' });
+
+// Streams `chunks` without a Content-Length, then goes quiet until the proxy aborts or cancels the body
+export const stall = (...chunks: string[]): MockBehaviour => ({ type: 'stall', chunks });
+
+// Accepts a WebSocket upgrade and echoes every message back
+export const websocket = (): MockBehaviour => ({ type: 'websocket' });
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const aborted = () => new DOMException('The operation was aborted', 'AbortError');
+
+// Resolves after `ms`, or rejects as soon as the proxy aborts the request
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(aborted());
+      return;
+    }
+
+    const onAbort = () => {
+      if (timeoutId !== null) clearTimeout(timeoutId);
+      reject(aborted());
+    };
+    const timeoutId = Number.isFinite(ms)
+      ? setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms)
+      : null;
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// One scripted upstream: queued behaviours are used once each, in order, then the default applies
+export class MockBackend {
+  readonly requests: RecordedRequest[] = [];
+  // Stalled bodies the proxy stopped reading, by cancelling or aborting them
+  streamsClosed = 0;
+  private queue: MockBehaviour[] = [];
+  private fallback: MockBehaviour = respond();
+
+  constructor(readonly url: string) {}
+
+  always(behaviour: MockBehaviour): this {
+    this.fallback = behaviour;
+    return this;
+  }
+
+  next(...behaviours: MockBehaviour[]): this {
+    this.queue.push(...behaviours);
+    return this;
+  }
+
+  get hits(): number {
+    return this.requests.length;
+  }
+
+  async handle(request: Request, signal?: AbortSignal | null): Promise<Response> {
+    this.requests.push({
+      method: request.method,
+      url: request.url,
+      headers: new Headers(request.headers),
+      body: request.body ? await request.text() : ''
+    });
+
+    const behaviour = this.queue.shift() ?? this.fallback;
+    switch (behaviour.type) {
+      case 'respond':
+        if (behaviour.delay > 0) await wait(behaviour.delay, signal);
+        const empty = request.method === 'HEAD' || NULL_BODY_STATUSES.includes(behaviour.status);
+        return new Response(empty ? null : behaviour.body, {
+          status: behaviour.status,
+          headers: behaviour.headers
+        });
+      case 'drop':
+        if (behaviour.delay > 0) await wait(behaviour.delay, signal);
+        throw new TypeError('Network connection lost.');
+      case 'hang':
+        await wait(Infinity, signal);
+        throw aborted();
+      case 'stall': {
+        const encoder = new TextEncoder();
+        let closed = false;
+        const onClosed = () => {
+          if (!closed) this.streamsClosed++;
+          closed = true;
+        };
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            behaviour.chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            signal?.addEventListener('abort', () => controller.error(aborted()), { once: true });
+          },
+          cancel: onClosed
+        });
+        signal?.addEventListener('abort', onClosed, { once: true });
+        return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+      case 'websocket': {
+        const [client, server] = Object.values(new WebSocketPair());
+        server.accept();
+        server.addEventListener('message', event => server.send(event.data));
+        return new Response(null, { status: 101, webSocket: client });
+      }
+    }
+  }
+}
+
+// Replaces the global fetch so every outbound request is answered by an in-process backend,
+// keyed by origin; requests to anything else fail the test instead of reaching the network
+export class MockBackends {
+  private backends = new Map<string, MockBackend>();
+  private spy: MockInstance<typeof fetch> | null = null;
+
+  add(url: string): MockBackend {
+    const backend = new MockBackend(url);
+    this.backends.set(new URL(url).origin, backend);
+    return backend;
+  }
+
+  get(url: string): MockBackend {
+    const backend = this.backends.get(new URL(url).origin);
+    if (!backend) {
+      throw new Error(`No mock backend for ${url}`);
+    }
+    return backend;
+  }
+
+  get totalHits(): number {
+    return [...this.backends.values()].reduce((sum, backend) => sum + backend.hits, 0);
+  }
+
+  install(): this {
+    this.spy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      let request = new Request(input, init);
+      const signal = init?.signal ?? request.signal;
+      // Awaited so a synchronous failure is never seen as an unhandled rejection
+      let response = await this.get(request.url).handle(request, signal);
+
+      // Like the runtime's fetch, redirects are followed unless the request asks for them back
+      for (let hops = 0; request.redirect === 'follow' && hops < 20; hops++) {
+        const location = response.headers.get('Location');
+        if (response.status < 300 || response.status > 399 || !location) break;
+        request = new Request(new URL(location, request.url), { method: 'GET', headers: request.headers });
+        response = await this.get(request.url).handle(request, signal);
+      }
+      return response;
+    });
+    return this;
+  }
+
+  restore(): void {
+    this.spy?.mockRestore();
+    this.spy = null;
+    this.backends.clear();
+  }
+}
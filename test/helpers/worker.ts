@@ -0,0 +1,31 @@
+import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import worker from '../../src/index';
+import type { Env, ProxyConfig } from '../../src/types';
+import { ConfigStore } from '../../src/config/config-store';
+import { LocalCoordinator } from '../../src/services/coordinator';
+import { LocalRateLimitStore } from '../../src/services/rate-limiter';
+
+// No Durable Object bindings, so backend state lives in the LocalCoordinator of this isolate
+export const createEnv = (config: Partial<ProxyConfig>, overrides: Partial<Env> = {}): Env => ({
+  ENVIRONMENT: 'test',
+  BACKENDS_CONFIG: JSON.stringify(config),
+  ...overrides
+});
+
+// Retries back off for a millisecond instead of seconds
+export const FAST_RETRY = { backoff: { base: 1, max: 1, jitter: false } };
+
+// Config and backend state are cached per isolate; every test starts from scratch
+export const resetWorkerState = (): void => {
+  ConfigStore.reset();
+  LocalCoordinator.reset();
+  LocalRateLimitStore.reset();
+};
+
+// Runs a request through the worker and waits for its background work, such as state reports
+export const proxyFetch = async (request: Request | string, env: Env): Promise<Response> => {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(typeof request === 'string' ? new Request(request) : request, env, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+};
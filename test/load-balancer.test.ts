@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { BackendConfig, BackendMetrics, LoadBalancingConfig } from '../src/types';
+import { LoadBalancer } from '../src/services/load-balancer';
+import { RoundRobinStrategy } from '../src/services/strategies';
+import { createSeededRandom } from '../src/utils/helpers';
+import { backend, createMetrics, createRequestInfo } from './helpers/fixtures';
+
+const SAMPLES = 20000;
+
+// Chi-square critical value for 3 degrees of freedom at p = 0.001
+const CHI_SQUARE_CRITICAL_DF3 = 16.27;
+
+const WEIGHTED = [
+  backend('https://a.backend.test', 'us-west', 1),
+  backend('https://b.backend.test', 'us-west', 2),
+  backend('https://c.backend.test', 'us-west', 3),
+  backend('https://d.backend.test', 'us-west', 4)
+];
+
+const countSelections = (
+  backends: BackendConfig[],
+  options: LoadBalancingConfig,
+  metrics: Map<string, BackendMetrics> = new Map(),
+  samples = SAMPLES
+): Map<string, number> => {
+  const balancer = new LoadBalancer(undefined, createSeededRandom(42));
+  const counts = new Map(backends.map(candidate => [candidate.url, 0]));
+  for (let i = 0; i < samples; i++) {
+    const selected = balancer.selectBackend(backends, createRequestInfo(), metrics, options);
+    counts.set(selected.url, counts.get(selected.url)! + 1);
+  }
+  return counts;
+};
+
+// Pearson's statistic against shares proportional to each backend's weight
+const chiSquare = (backends: BackendConfig[], counts: Map<string, number>, samples = SAMPLES): number => {
+  const totalWeight = backends.reduce((sum, candidate) => sum + candidate.weight, 0);
+  return backends.reduce((sum, candidate) => {
+    const expected = samples * candidate.weight / totalWeight;
+    return sum + (counts.get(candidate.url)! - expected) ** 2 / expected;
+  }, 0);
+};
+
+describe('LoadBalancer', () => {
+  beforeEach(() => {
+    RoundRobinStrategy.reset();
+  });
+
+  describe('weighted distribution', () => {
+    it('weighted-random matches the configured weights', () => {
+      const counts = countSelections(WEIGHTED, { strategy: 'weighted-random' });
+      expect(chiSquare(WEIGHTED, counts)).toBeLessThan(CHI_SQUARE_CRITICAL_DF3);
+      for (const candidate of WEIGHTED) {
+        expect(counts.get(candidate.url)! / SAMPLES).toBeCloseTo(candidate.weight / 10, 1);
+      }
+    });
+
+    it('performance strategy follows the weights until metrics exist', () => {
+      const counts = countSelections(WEIGHTED, {});
+      expect(chiSquare(WEIGHTED, counts)).toBeLessThan(CHI_SQUARE_CRITICAL_DF3);
+    });
+
+    it('power-of-two follows the weights when every backend costs the same', () => {
+      const metrics = new Map(WEIGHTED.map(candidate => [candidate.url, createMetrics(100, 50)]));
+      const counts = countSelections(WEIGHTED, { strategy: 'power-of-two' }, metrics);
+      // Each pick keeps the first of two weighted samples, so heavier backends still get more traffic
+      const shares = WEIGHTED.map(candidate => counts.get(candidate.url)!);
+      expect(shares).toEqual([...shares].sort((a, b) => a - b));
+    });
+
+    it('round-robin hands out exactly the weighted share in every cycle', () => {
+      const counts = countSelections(WEIGHTED, { strategy: 'round-robin' }, new Map(), 1000);
+      expect(WEIGHTED.map(candidate => counts.get(candidate.url))).toEqual([100, 200, 300, 400]);
+    });
+
+    it('never selects a backend with weight 0', () => {
+      const backends = [
+        backend('https://a.backend.test', 'us-west', 1),
+        backend('https://drained.backend.test', 'us-west', 0),
+        backend('https://b.backend.test', 'us-west', 1)
+      ];
+      for (const strategy of ['weighted-random', 'round-robin'] as const) {
+        expect(countSelections(backends, { strategy }).get('https://drained.backend.test')).toBe(0);
+      }
+    });
+  });
+
+  describe('metrics-aware selection', () => {
+    it('performance strategy shifts traffic away from a failing backend', () => {
+      const backends = WEIGHTED.slice(0, 2);
+      const metrics = new Map([
+        [backends[0].url, createMetrics(100, 50, 0)],
+        [backends[1].url, createMetrics(100, 50, 60)]
+      ]);
+      const counts = countSelections(backends, {}, metrics);
+      expect(counts.get(backends[0].url)! / SAMPLES).toBeGreaterThan(0.9);
+    });
+
+    it('least-latency picks the fastest measured backend', () => {
+      const metrics = new Map(WEIGHTED.map((candidate, i) => [candidate.url, createMetrics(10, 400 - i * 100)]));
+      const counts = countSelections(WEIGHTED, { strategy: 'least-latency' }, metrics, 100);
+      expect(counts.get('https://d.backend.test')).toBe(100);
+    });
+
+    it('least-latency tries unmeasured backends first', () => {
+      const metrics = new Map([[WEIGHTED[0].url, createMetrics(10, 5)]]);
+      const counts = countSelections(WEIGHTED, { strategy: 'least-latency' }, metrics, 300);
+      expect(counts.get(WEIGHTED[0].url)).toBe(0);
+    });
+  });
+
+  describe('consistent-hash', () => {
+    it('sends the same key to the same backend', () => {
+      const balancer = new LoadBalancer();
+      const options: LoadBalancingConfig = { strategy: 'consistent-hash', hashKey: { source: 'header', name: 'X-User' } };
+      const pick = (user: string) => balancer.selectBackend(
+        WEIGHTED,
+        createRequestInfo({ headers: new Headers({ 'X-User': user }) }),
+        new Map(),
+        options
+      ).url;
+
+      for (const user of ['alice', 'bob', 'carol']) {
+        expect(new Set(Array.from({ length: 20 }, () => pick(user))).size).toBe(1);
+      }
+    });
+  });
+
+  describe('candidate filtering', () => {
+    const backends = [
+      backend('https://eu.backend.test', 'europe-west', 1),
+      backend('https://us.backend.test', 'us-west', 100)
+    ];
+
+    it('restricts selection to the client region', () => {
+      const balancer = new LoadBalancer(undefined, createSeededRandom(7));
+      const urls = new Set(Array.from({ length: 100 }, () => {
+        return balancer.selectBackend(backends, createRequestInfo({ country: 'DE' })).url;
+      }));
+      expect([...urls]).toEqual(['https://eu.backend.test']);
+    });
+
+    it('ignores regions when geoRouting is disabled', () => {
+      const balancer = new LoadBalancer(undefined, createSeededRandom(7));
+      const urls = new Set(Array.from({ length: 100 }, () => {
+        return balancer.selectBackend(backends, createRequestInfo({ country: 'DE' }), new Map(), { geoRouting: false }).url;
+      }));
+      expect(urls.has('https://us.backend.test')).toBe(true);
+    });
+
+    it('keeps the preferred backend while it is a candidate', () => {
+      const balancer = new LoadBalancer();
+      const selected = balancer.selectBackend(backends, createRequestInfo({ country: 'DE' }), new Map(), {}, 'https://us.backend.test');
+      expect(selected.url).toBe('https://us.backend.test');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Env, ProxyConfig } from '../src/types';
+import { MockBackends, respond } from './helpers/mock-backends';
+import { createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+
+const US_A = 'https://us-a.backend.test';
+const US_B = 'https://us-b.backend.test';
+const TOKEN = 'metrics-token';
+
+// The region carries a quote, a backslash and a newline so label escaping shows in the output
+const config: Partial<ProxyConfig> = {
+  backends: [
+    { url: US_A, region: 'us-west', weight: 1 },
+    { url: US_B, region: 'us "east"\\2\n', weight: 1 }
+  ],
+  loadBalancing: { strategy: 'round-robin' },
+  retryAttempts: 1,
+  enableCaching: false
+};
+
+const scrape = (headers: Record<string, string> = {}) => new Request('https://proxy.test/metrics', { headers });
+
+describe('/metrics', () => {
+  let backends: MockBackends;
+
+  beforeEach(() => {
+    resetWorkerState();
+    backends = new MockBackends().install();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  describe('access', () => {
+    it('is hidden unless a token or an allowlist is configured', async () => {
+      const response = await proxyFetch(scrape(), createEnv(config));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('accepts the bearer token and rejects anything else', async () => {
+      const env = createEnv(config, { METRICS_TOKEN: TOKEN });
+
+      const allowed = await proxyFetch(scrape({ Authorization: `Bearer ${TOKEN}` }), env);
+      const wrong = await proxyFetch(scrape({ Authorization: 'Bearer guess' }), env);
+      const missing = await proxyFetch(scrape(), env);
+
+      expect(allowed.status).toBe(200);
+      expect(wrong.status).toBe(401);
+      expect(missing.status).toBe(401);
+    });
+
+    it('accepts client IPs in the allowlist and forbids the rest', async () => {
+      const env = createEnv(config, { METRICS_ALLOWED_IPS: '203.0.113.7, 10.0.0.0/8' });
+
+      const exact = await proxyFetch(scrape({ 'CF-Connecting-IP': '203.0.113.7' }), env);
+      const range = await proxyFetch(scrape({ 'CF-Connecting-IP': '10.1.2.3' }), env);
+      const outside = await proxyFetch(scrape({ 'CF-Connecting-IP': '198.51.100.1' }), env);
+
+      expect(exact.status).toBe(200);
+      expect(range.status).toBe(200);
+      expect(outside.status).toBe(403);
+    });
+  });
+
+  describe('Prometheus output', () => {
+    let env: Env;
+    let body: string;
+
+    beforeEach(async () => {
+      env = createEnv(config, { METRICS_TOKEN: TOKEN });
+      backends.add(US_A).always(respond(200));
+      backends.add(US_B).always(respond(500));
+
+      // Round robin sends the second request to us-b, whose 5xx then falls back to us-a
+      await proxyFetch('https://proxy.test/a', env);
+      await proxyFetch('https://proxy.test/b', env);
+
+      const response = await proxyFetch(scrape({ Authorization: `Bearer ${TOKEN}` }), env);
+      expect(response.headers.get('Content-Type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+      body = await response.text();
+    });
+
+    it('declares the type of every metric family', () => {
+      expect(body).toContain('# TYPE proxy_backend_requests_total counter');
+      expect(body).toContain('# TYPE proxy_backend_errors_total counter');
+      expect(body).toContain('# TYPE proxy_backend_latency_seconds histogram');
+      expect(body).toContain('# TYPE proxy_backend_up gauge');
+      expect(body).toContain('# TYPE proxy_cache_hit_ratio gauge');
+    });
+
+    it('escapes quotes, backslashes and newlines in label values', () => {
+      expect(body).toContain(`proxy_backend_errors_total{backend="${US_B}",region="us \\"east\\"\\\\2\\n"} 1`);
+      expect(body.split('\n').every(line => line === '' || /^(#|proxy_)/.test(line))).toBe(true);
+    });
+
+    it('reports counters and latency histograms per backend', () => {
+      const east = `backend="${US_B}",region="us \\"east\\"\\\\2\\n"`;
+
+      expect(body).toContain(`proxy_backend_requests_total{backend="${US_A}",region="us-west",status_class="2xx"} 2`);
+      expect(body).toContain(`proxy_backend_requests_total{${east},status_class="5xx"} 1`);
+      expect(body).toContain(`proxy_backend_errors_total{backend="${US_A}",region="us-west"} 0`);
+      expect(body).toContain(`proxy_backend_latency_seconds_count{backend="${US_A}",region="us-west"} 2`);
+      expect(body).toContain(`proxy_backend_latency_seconds_count{${east}} 1`);
+      expect(body).toContain(`proxy_backend_latency_seconds_bucket{backend="${US_A}",region="us-west",le="+Inf"} 2`);
+    });
+  });
+});
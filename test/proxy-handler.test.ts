@@ -0,0 +1,541 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ProxyConfig } from '../src/types';
+import { ConfigStore } from '../src/config/config-store';
+import { LocalCoordinator } from '../src/services/coordinator';
+import { RetryBudget } from '../src/services/retry-budget';
+import { RoundRobinStrategy } from '../src/services/strategies';
+import { MockBackends, drop, hang, respond, slow, stall, websocket } from './helpers/mock-backends';
+import { FAST_RETRY, createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+
+const US_A = 'https://us-a.backend.test';
+const US_B = 'https://us-b.backend.test';
+
+// Round-robin makes the first pick deterministic: US_A, then US_B as the fallback
+const baseConfig = (overrides: Partial<ProxyConfig> = {}): Partial<ProxyConfig> => ({
+  backends: [
+    { url: US_A, region: 'us-west', weight: 1 },
+    { url: US_B, region: 'us-west', weight: 1 }
+  ],
+  loadBalancing: { strategy: 'round-robin' },
+  retryAttempts: 1,
+  retry: FAST_RETRY,
+  enableCaching: false,
+  exposeBackendHeaders: true,
+  ...overrides
+});
+
+describe('ProxyHandler', () => {
+  let backends: MockBackends;
+
+  beforeEach(() => {
+    resetWorkerState();
+    RoundRobinStrategy.reset();
+    backends = new MockBackends().install();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('proxies to a backend and tags the response', async () => {
+    const upstream = backends.add(US_A).always(respond(200, 'hello'));
+    backends.add(US_B);
+
+    const response = await proxyFetch('https://proxy.test/greeting?lang=en', createEnv(baseConfig()));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('hello');
+    expect(response.headers.get('X-Proxy-By')).toBe('Cloudflare-Workers');
+    expect(response.headers.get('X-Backend-URL')).toBe(US_A);
+    expect(response.headers.get('X-Request-ID')).toBeTruthy();
+    expect(upstream.requests[0].url).toBe(`${US_A}/greeting?lang=en`);
+  });
+
+  it('fails closed with 503 when the configuration is invalid', async () => {
+    const response = await proxyFetch('https://proxy.test/', createEnv({ backends: [] }));
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('Retry-After')).toBe('30');
+    expect(backends.totalHits).toBe(0);
+  });
+
+  it('routes to the client region', async () => {
+    backends.add(US_A);
+    const tokyo = backends.add('https://jp.backend.test');
+    const config = baseConfig({
+      backends: [
+        { url: US_A, region: 'us-west', weight: 1 },
+        { url: 'https://jp.backend.test', region: 'asia-northeast', weight: 1 }
+      ]
+    });
+
+    const response = await proxyFetch(new Request('https://proxy.test/', { headers: { 'CF-IPCountry': 'JP' } }), createEnv(config));
+
+    expect(response.headers.get('X-Backend-Region')).toBe('asia-northeast');
+    expect(tokyo.hits).toBe(1);
+  });
+
+  describe('fallback', () => {
+    it('moves to the next backend after a 5xx', async () => {
+      const failing = backends.add(US_A).always(respond(502, 'bad gateway'));
+      const healthy = backends.add(US_B);
+
+      const response = await proxyFetch('https://proxy.test/', createEnv(baseConfig()));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Backend-URL')).toBe(US_B);
+      expect([failing.hits, healthy.hits]).toEqual([1, 1]);
+    });
+
+    it('moves to the next backend after a dropped connection', async () => {
+      backends.add(US_A).always(drop());
+      backends.add(US_B);
+
+      const response = await proxyFetch('https://proxy.test/', createEnv(baseConfig()));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Backend-URL')).toBe(US_B);
+    });
+
+    it('moves to the next backend when the first one times out', async () => {
+      backends.add(US_A).always(hang());
+      backends.add(US_B);
+      const config = baseConfig({
+        backends: [
+          { url: US_A, region: 'us-west', weight: 1, timeouts: { connect: 20 } },
+          { url: US_B, region: 'us-west', weight: 1 }
+        ]
+      });
+
+      const response = await proxyFetch('https://proxy.test/', createEnv(config));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Backend-URL')).toBe(US_B);
+    });
+
+    it('retries a backend before falling back when retryAttempts allows', async () => {
+      const flaky = backends.add(US_A).next(drop());
+      const other = backends.add(US_B);
+
+      const response = await proxyFetch('https://proxy.test/', createEnv(baseConfig({ retryAttempts: 2 })));
+
+      expect(response.status).toBe(200);
+      expect([flaky.hits, other.hits]).toEqual([2, 0]);
+    });
+
+    it('returns 502 when no backend can be reached', async () => {
+      backends.add(US_A).always(drop());
+      backends.add(US_B).always(drop());
+
+      const response = await proxyFetch('https://proxy.test/', createEnv(baseConfig()));
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toMatchObject({ status: 502, code: 'upstream' });
+    });
+
+    it('passes on the last upstream 5xx when every backend fails', async () => {
+      backends.add(US_A).always(respond(500, 'first'));
+      backends.add(US_B).always(respond(503, 'second', { 'Retry-After': '5' }));
+
+      const response = await proxyFetch('https://proxy.test/', createEnv(baseConfig()));
+
+      expect(response.status).toBe(503);
+      expect(response.headers.get('Retry-After')).toBe('5');
+      expect(await response.text()).toBe('second');
+    });
+
+    it('prefers an upstream 5xx over a later connection failure', async () => {
+      backends.add(US_A).always(respond(500, 'boom'));
+      backends.add(US_B).always(drop());
+
+      const response = await proxyFetch('https://proxy.test/', createEnv(baseConfig()));
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe('boom');
+    });
+
+    it('stops after maxBackends', async () => {
+      const third = backends.add('https://us-c.backend.test');
+      backends.add(US_A).always(respond(500));
+      backends.add(US_B).always(respond(500));
+      const config = baseConfig({
+        backends: [
+          { url: US_A, region: 'us-west', weight: 1 },
+          { url: US_B, region: 'us-west', weight: 1 },
+          { url: 'https://us-c.backend.test', region: 'us-west', weight: 1 }
+        ],
+        retry: { ...FAST_RETRY, maxBackends: 2 }
+      });
+
+      const response = await proxyFetch('https://proxy.test/', createEnv(config));
+
+      expect(response.status).toBe(500);
+      expect(third.hits).toBe(0);
+    });
+
+    it('returns the upstream 5xx for a POST instead of re-sending it', async () => {
+      const failing = backends.add(US_A).always(respond(500, 'boom'));
+      const other = backends.add(US_B);
+
+      const response = await proxyFetch(
+        new Request('https://proxy.test/orders', { method: 'POST', body: '{"id":1}' }),
+        createEnv(baseConfig())
+      );
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe('boom');
+      expect([failing.hits, other.hits]).toEqual([1, 0]);
+    });
+  });
+
+  // US_A drops the connection, so US_B answers the first request with a 500 that opens its circuit
+  const openSecondBackend = async (env: ReturnType<typeof createEnv>, openTimeout: number) => {
+    await proxyFetch('https://proxy.test/', env);
+    await new Promise(resolve => setTimeout(resolve, openTimeout + 10));
+  };
+  const withTrialBackend = (openTimeout: number, overrides: Partial<ProxyConfig> = {}) => baseConfig({
+    backends: [
+      { url: US_A, region: 'us-west', weight: 1 },
+      { url: US_B, region: 'us-west', weight: 1, circuitBreaker: { failureThreshold: 1, openTimeout, successThreshold: 2 } }
+    ],
+    ...overrides
+  });
+
+  describe('circuit breaker', () => {
+    const single = (circuitBreaker = {}) => baseConfig({
+      backends: [{ url: US_A, region: 'us-west', weight: 1, circuitBreaker }],
+      circuitBreakerThreshold: 2
+    });
+
+    it('opens after consecutive failures and stops sending traffic', async () => {
+      const failing = backends.add(US_A).always(respond(500));
+      const env = createEnv(single());
+
+      for (let i = 0; i < 2; i++) {
+        expect((await proxyFetch('https://proxy.test/', env)).status).toBe(500);
+      }
+      const response = await proxyFetch('https://proxy.test/', env);
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toMatchObject({ code: 'circuit-open' });
+      expect(failing.hits).toBe(2);
+    });
+
+    it('sends a trial request once the open timeout has passed and closes on success', async () => {
+      const recovering = backends.add(US_A).next(respond(500), respond(500));
+      const env = createEnv(single({ openTimeout: 30, successThreshold: 1 }));
+
+      await proxyFetch('https://proxy.test/', env);
+      await proxyFetch('https://proxy.test/', env);
+      expect((await proxyFetch('https://proxy.test/', env)).status).toBe(503);
+      expect(recovering.hits).toBe(2);
+
+      await new Promise(resolve => setTimeout(resolve, 40));
+      expect((await proxyFetch('https://proxy.test/', env)).status).toBe(200);
+      expect((await proxyFetch('https://proxy.test/', env)).status).toBe(200);
+      expect(recovering.hits).toBe(4);
+    });
+
+    it('keeps serving from the healthy backend while the other circuit is open', async () => {
+      const failing = backends.add(US_A).always(respond(500));
+      const healthy = backends.add(US_B);
+      const env = createEnv(baseConfig({ circuitBreakerThreshold: 2 }));
+
+      for (let i = 0; i < 6; i++) {
+        expect((await proxyFetch('https://proxy.test/', env)).status).toBe(200);
+      }
+
+      expect(failing.hits).toBe(2);
+      expect(healthy.hits).toBe(6);
+    });
+
+    it('spends no retry budget on a fallback that finds no backend to try', async () => {
+      backends.add(US_A).next(drop()).always(respond(500));
+      backends.add(US_B).next(respond(500));
+      const env = createEnv(withTrialBackend(30));
+      await openSecondBackend(env, 30);
+
+      vi.spyOn(LocalCoordinator.prototype, 'acquireTrial').mockResolvedValue(false);
+      const acquire = vi.spyOn(RetryBudget.prototype, 'tryAcquire');
+      const response = await proxyFetch('https://proxy.test/', env);
+
+      expect(response.status).toBe(500);
+      expect(acquire).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('caching', () => {
+    const cached = (path: string) => `https://proxy.test/cache/${path}-${crypto.randomUUID()}`;
+
+    it('serves a cacheable response from the cache', async () => {
+      const upstream = backends.add(US_A).always(respond(200, 'cached body', { 'Cache-Control': 'max-age=60' }));
+      backends.add(US_B);
+      const env = createEnv(baseConfig({ enableCaching: true }));
+      const url = cached('hit');
+
+      const first = await proxyFetch(url, env);
+      const second = await proxyFetch(url, env);
+
+      expect(first.headers.get('X-Cache')).toBe('MISS');
+      expect(second.headers.get('X-Cache')).toBe('HIT');
+      expect(await second.text()).toBe('cached body');
+      expect(upstream.hits).toBe(1);
+    });
+
+    it('revalidates a no-cache response on every request', async () => {
+      const upstream = backends.add(US_A)
+        .next(respond(200, 'v1', { 'Cache-Control': 'no-cache', ETag: '"v1"' }))
+        .always(respond(304, '', { ETag: '"v1"' }));
+      const env = createEnv(baseConfig({ enableCaching: true, backends: [{ url: US_A, region: 'us-west', weight: 1 }] }));
+      const url = cached('no-cache');
+
+      await proxyFetch(url, env);
+      const second = await proxyFetch(url, env);
+
+      expect(upstream.hits).toBe(2);
+      expect(upstream.requests[1].headers.get('If-None-Match')).toBe('"v1"');
+      expect(await second.text()).toBe('v1');
+    });
+
+    it('does not store responses marked private', async () => {
+      const upstream = backends.add(US_A).always(respond(200, 'mine', { 'Cache-Control': 'private, max-age=60' }));
+      backends.add(US_B);
+      const env = createEnv(baseConfig({ enableCaching: true, loadBalancing: { strategy: 'round-robin', geoRouting: false } }));
+      const url = cached('private');
+
+      await proxyFetch(url, env);
+      RoundRobinStrategy.reset();
+      const second = await proxyFetch(url, env);
+
+      expect(second.headers.get('X-Cache')).toBe('MISS');
+      expect(upstream.hits).toBe(2);
+    });
+
+    it('bypasses the cache for requests with no-store', async () => {
+      const upstream = backends.add(US_A).always(respond(200, 'fresh', { 'Cache-Control': 'max-age=60' }));
+      backends.add(US_B);
+      const env = createEnv(baseConfig({ enableCaching: true }));
+      const url = cached('no-store');
+
+      await proxyFetch(url, env);
+      RoundRobinStrategy.reset();
+      const bypass = await proxyFetch(new Request(url, { headers: { 'Cache-Control': 'no-store' } }), env);
+
+      expect(bypass.headers.has('X-Cache')).toBe(false);
+      expect(upstream.hits).toBe(2);
+    });
+  });
+
+  describe('error responses', () => {
+    it('answers a timeout with 504 problem details carrying the request ID', async () => {
+      backends.add(US_A).always(hang());
+      const config = baseConfig({
+        backends: [{ url: US_A, region: 'us-west', weight: 1, timeouts: { connect: 20 } }]
+      });
+
+      const response = await proxyFetch(new Request('https://proxy.test/', { headers: { 'X-Request-ID': 'abc-123' } }), createEnv(config));
+
+      expect(response.status).toBe(504);
+      expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+      expect(response.headers.get('X-Request-ID')).toBe('abc-123');
+      expect(await response.json()).toMatchObject({ code: 'timeout', requestId: 'abc-123' });
+    });
+
+    it('serves the configured HTML page to browsers', async () => {
+      backends.add(US_A).always(drop());
+      backends.add(US_B).always(drop());
+      const config = baseConfig({ errors: { pages: { '5xx': '<h1>{status}</h1><p>{requestId}</p>' } } });
+
+      const response = await proxyFetch(new Request('https://proxy.test/', {
+        headers: { 'Accept': 'text/html', 'X-Request-ID': 'page-1' }
+      }), createEnv(config));
+
+      expect(response.status).toBe(502);
+      expect(await response.text()).toBe('<h1>502</h1><p>page-1</p>');
+    });
+
+    it('hides upstream 5xx bodies when configured', async () => {
+      backends.add(US_A).always(respond(500, 'Traceback: secret.py line 3'));
+      backends.add(US_B);
+
+      const response = await proxyFetch(
+        new Request('https://proxy.test/orders', { method: 'POST', body: '{}' }),
+        createEnv(baseConfig({ errors: { hideUpstreamErrors: true } }))
+      );
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).not.toContain('secret.py');
+    });
+
+    it('rejects oversized requests with 413', async () => {
+      backends.add(US_A);
+      const request = new Request('https://proxy.test/upload', {
+        method: 'POST',
+        body: 'x',
+        headers: { 'Content-Length': String(11 * 1024 * 1024) }
+      });
+
+      const response = await proxyFetch(request, createEnv(baseConfig()));
+
+      expect(response.status).toBe(413);
+      expect(await response.json()).toMatchObject({ code: 'too-large' });
+      expect(backends.totalHits).toBe(0);
+    });
+
+    it('includes the request ID when the configuration is unavailable', async () => {
+      const response = await proxyFetch(
+        new Request('https://proxy.test/', { headers: { 'X-Request-ID': 'cfg-1' } }),
+        createEnv({ backends: [] })
+      );
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toMatchObject({ code: 'config', requestId: 'cfg-1' });
+    });
+  });
+
+  describe('request filter', () => {
+    it('answers a disallowed method with 405 and an Allow header', async () => {
+      backends.add(US_A);
+      const response = await proxyFetch(
+        new Request('https://proxy.test/items', { method: 'DELETE' }),
+        createEnv(baseConfig({ filter: { methods: ['GET', 'HEAD'] } }))
+      );
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get('Allow')).toBe('GET, HEAD');
+      expect(backends.totalHits).toBe(0);
+    });
+
+    it('rejects encoded slashes before routing to a backend', async () => {
+      backends.add(US_A);
+      const config = baseConfig({ filter: { blockEncodedSlashes: true } });
+      const response = await proxyFetch('https://proxy.test/static/..%2fadmin', createEnv(config));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: 'bad-request' });
+      expect(backends.totalHits).toBe(0);
+    });
+
+    it('blocks denied client addresses', async () => {
+      backends.add(US_A);
+      const response = await proxyFetch(
+        new Request('https://proxy.test/', { headers: { 'CF-Connecting-IP': '192.0.2.9' } }),
+        createEnv(baseConfig({ filter: { ips: { deny: ['192.0.2.0/24'] } } }))
+      );
+
+      expect(response.status).toBe(403);
+      expect(backends.totalHits).toBe(0);
+    });
+
+    it('applies the body limit of the matched route to streamed uploads', async () => {
+      backends.add(US_A);
+      backends.add(US_B);
+      const upload = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < 4; i++) {
+            controller.enqueue(new Uint8Array(512));
+          }
+          controller.close();
+        }
+      });
+      const config = baseConfig({
+        routes: [{ match: { pathPrefix: '/upload' }, pool: 'default', filter: { maxBodySize: 1024 } }]
+      });
+
+      const response = await proxyFetch(
+        new Request('https://proxy.test/upload', { method: 'POST', body: upload, duplex: 'half' } as RequestInit),
+        createEnv(config)
+      );
+      const allowed = await proxyFetch(
+        new Request('https://proxy.test/other', { method: 'POST', body: new Uint8Array(2048) }),
+        createEnv(config)
+      );
+
+      expect(response.status).toBe(413);
+      expect(await response.json()).toMatchObject({ code: 'too-large' });
+      expect(allowed.status).toBe(200);
+      expect(backends.totalHits).toBe(1);
+    });
+  });
+
+  describe('streaming and upgrades', () => {
+    const single = (overrides: Partial<ProxyConfig> = {}) => baseConfig({
+      backends: [{ url: US_A, region: 'us-west', weight: 1 }],
+      ...overrides
+    });
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('passes a WebSocket upgrade through to the backend', async () => {
+      const upstream = backends.add(US_A).always(websocket());
+      const request = new Request('https://proxy.test/socket', { headers: { Upgrade: 'websocket', Connection: 'Upgrade' } });
+
+      const response = await proxyFetch(request, createEnv(single()));
+
+      expect(response.status).toBe(101);
+      expect(upstream.requests[0].headers.get('Upgrade')).toBe('websocket');
+
+      const socket = response.webSocket!;
+      socket.accept();
+      const echoed = new Promise(resolve => socket.addEventListener('message', event => resolve(event.data), { once: true }));
+      socket.send('ping');
+      expect(await echoed).toBe('ping');
+      socket.close();
+    });
+
+    it('ends a stream that stays idle past streamIdleTimeout', async () => {
+      const upstream = backends.add(US_A).always(stall('data: 1\n\n'));
+      const response = await proxyFetch('https://proxy.test/events', createEnv(single({ streamIdleTimeout: 30 })));
+      const reader = response.body!.getReader();
+
+      const first = await reader.read();
+      expect(new TextDecoder().decode(first.value)).toBe('data: 1\n\n');
+      await expect(reader.read()).rejects.toThrow();
+      expect(upstream.streamsClosed).toBe(1);
+    });
+
+    it('stops reading the upstream as soon as the client goes away', async () => {
+      const upstream = backends.add(US_A).always(stall('data: 1\n\n'));
+      const response = await proxyFetch('https://proxy.test/events', createEnv(single({ streamIdleTimeout: 60000 })));
+      const reader = response.body!.getReader();
+
+      await reader.read();
+      await reader.cancel();
+      await sleep(10);
+
+      expect(upstream.streamsClosed).toBe(1);
+    });
+  });
+
+  describe('hedging', () => {
+    it('answers from a second backend when the first is slower than the hedge delay', async () => {
+      const slowBackend = backends.add(US_A).always(slow(500, 200, 'slow'));
+      backends.add(US_B).always(respond(200, 'fast'));
+      const env = createEnv(baseConfig({ hedging: { delay: 20 } }));
+
+      const startedAt = Date.now();
+      const response = await proxyFetch('https://proxy.test/', env);
+
+      expect(await response.text()).toBe('fast');
+      expect(Date.now() - startedAt).toBeLessThan(500);
+      expect(slowBackend.hits).toBe(1);
+    });
+
+    it('hands back the trial slot of a half-open backend that loses the race', async () => {
+      backends.add(US_A).next(drop()).always(slow(100, 200, 'a'));
+      const trialBackend = backends.add(US_B).next(respond(500)).always(hang());
+      const env = createEnv(withTrialBackend(300, { hedging: { delay: 20 } }));
+      await openSecondBackend(env, 300);
+
+      const response = await proxyFetch('https://proxy.test/', env);
+      const snapshot = await new LocalCoordinator(await ConfigStore.load(env)).getSnapshot();
+
+      expect(await response.text()).toBe('a');
+      expect(trialBackend.hits).toBe(2);
+      expect(snapshot.health[US_B]).toMatchObject({ state: 'half-open', halfOpenInFlight: 0 });
+    });
+  });
+});
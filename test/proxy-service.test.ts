@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { BackendConfig, ProxyConfig } from '../src/types';
+import { ConfigLoader } from '../src/config/backends';
+import { ProxyService, type ProxyRequestOptions } from '../src/services/proxy-service';
+import { RetryPolicy } from '../src/services/retry-policy';
+import { bufferRequestBody } from '../src/utils/body';
+import { Deadline } from '../src/utils/deadline';
+import { MockBackends, drop, hang, respond, slow } from './helpers/mock-backends';
+import { FAST_RETRY } from './helpers/worker';
+
+const BACKEND: BackendConfig = { url: 'https://us.backend.test', region: 'us-west', weight: 1 };
+
+const config: ProxyConfig = ConfigLoader.fromDocument({ backends: [BACKEND] }, { ENVIRONMENT: 'test' });
+
+const retries = (attempts: number) => new RetryPolicy(FAST_RETRY, attempts);
+
+// The handler always buffers the body first; without that nothing is replayable
+const send = async (service: ProxyService, request: Request, backend: BackendConfig, options: ProxyRequestOptions = {}) => {
+  return service.proxyRequest(request, backend, { body: await bufferRequestBody(request, 1024), ...options });
+};
+
+describe('ProxyService', () => {
+  let backends: MockBackends;
+  let service: ProxyService;
+
+  beforeEach(() => {
+    backends = new MockBackends().install();
+    service = new ProxyService(config);
+  });
+
+  afterEach(() => {
+    backends.restore();
+  });
+
+  it('forwards the path, query and client address', async () => {
+    const upstream = backends.add(BACKEND.url);
+    const request = new Request('https://proxy.test/items?page=2', {
+      headers: { 'CF-Connecting-IP': '198.51.100.7', 'CF-Ray': 'abc' }
+    });
+
+    const response = await send(service, request, BACKEND);
+
+    expect(response.status).toBe(200);
+    const [forwarded] = upstream.requests;
+    expect(forwarded.url).toBe('https://us.backend.test/items?page=2');
+    expect(forwarded.headers.get('X-Forwarded-For')).toBe('198.51.100.7');
+    expect(forwarded.headers.has('CF-Ray')).toBe(false);
+  });
+
+  describe('retries', () => {
+    it('retries dropped connections until one succeeds', async () => {
+      const upstream = backends.add(BACKEND.url).next(drop(), drop());
+      let retried = 0;
+
+      const response = await send(service, new Request('https://proxy.test/'), BACKEND, {
+        retryPolicy: retries(3),
+        onRetry: () => retried++
+      });
+
+      expect(response.status).toBe(200);
+      expect(upstream.hits).toBe(3);
+      expect(retried).toBe(2);
+    });
+
+    it('gives up after the configured attempts', async () => {
+      const upstream = backends.add(BACKEND.url).always(drop());
+
+      await expect(send(service, new Request('https://proxy.test/'), BACKEND, { retryPolicy: retries(3) }))
+        .rejects.toThrow('Network connection lost.');
+      expect(upstream.hits).toBe(3);
+    });
+
+    it('returns 5xx responses without retrying', async () => {
+      const upstream = backends.add(BACKEND.url).always(respond(503, 'down'));
+
+      const response = await send(service, new Request('https://proxy.test/'), BACKEND, { retryPolicy: retries(3) });
+
+      expect(response.status).toBe(503);
+      expect(upstream.hits).toBe(1);
+    });
+
+    it('times out a backend that never answers and retries it', async () => {
+      const slowBackend = { ...BACKEND, timeouts: { connect: 20 } };
+      const upstream = backends.add(BACKEND.url).always(hang());
+
+      await expect(send(service, new Request('https://proxy.test/'), slowBackend, { retryPolicy: retries(2) }))
+        .rejects.toThrow('Upstream timeout after 20ms from https://us.backend.test');
+      expect(upstream.hits).toBe(2);
+    });
+
+    it('stops retrying once the request deadline has passed', async () => {
+      const upstream = backends.add(BACKEND.url).always(drop(30));
+
+      await expect(send(service, new Request('https://proxy.test/'), BACKEND, {
+        retryPolicy: retries(5),
+        deadline: Deadline.after(40)
+      })).rejects.toThrow();
+      expect(upstream.hits).toBeLessThan(5);
+    });
+
+    it('does not re-send a POST that may have reached the backend', async () => {
+      const upstream = backends.add(BACKEND.url).next(drop());
+      const request = new Request('https://proxy.test/orders', { method: 'POST', body: '{"id":1}' });
+
+      await expect(send(service, request, BACKEND, {
+        retryPolicy: retries(3)
+      })).rejects.toThrow();
+      expect(upstream.hits).toBe(1);
+    });
+
+    it('re-sends a POST carrying an Idempotency-Key with the same body', async () => {
+      const upstream = backends.add(BACKEND.url).next(drop());
+      const request = new Request('https://proxy.test/orders', {
+        method: 'POST',
+        body: '{"id":1}',
+        headers: { 'Idempotency-Key': 'order-1' }
+      });
+
+      const response = await send(service, request, BACKEND, {
+        retryPolicy: retries(3)
+      });
+
+      expect(response.status).toBe(200);
+      expect(upstream.requests.map(forwarded => forwarded.body)).toEqual(['{"id":1}', '{"id":1}']);
+    });
+  });
+
+  it('cancels the upstream request when the caller aborts', async () => {
+    backends.add(BACKEND.url).always(slow(1000));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(send(service, new Request('https://proxy.test/'), BACKEND, {
+      retryPolicy: retries(3),
+      signal: controller.signal
+    })).rejects.toThrow('Request to https://us.backend.test cancelled');
+  });
+});
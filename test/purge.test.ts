@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Env, ProxyConfig } from '../src/types';
+import { MockBackends, respond } from './helpers/mock-backends';
+import { createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+
+const BACKEND = 'https://origin.backend.test';
+const ZONE_API = 'https://api.cloudflare.com';
+const TOKEN = 'purge-token';
+
+const config: Partial<ProxyConfig> = {
+  backends: [{ url: BACKEND, region: 'us-west', weight: 1 }],
+  retryAttempts: 1,
+  enableCaching: true
+};
+
+const purge = (body: unknown, token = TOKEN, method = 'POST') => new Request('https://proxy.test/__proxy/purge', {
+  method,
+  headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+  body: method === 'POST' ? JSON.stringify(body) : undefined
+});
+
+describe('cache purge', () => {
+  let backends: MockBackends;
+  let env: Env;
+
+  beforeEach(() => {
+    resetWorkerState();
+    backends = new MockBackends().install();
+    env = createEnv(config, { PURGE_TOKEN: TOKEN });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('is hidden without PURGE_TOKEN and only accepts authorized POSTs', async () => {
+    const hidden = await proxyFetch(purge({ urls: ['https://proxy.test/a'] }), createEnv(config));
+    const get = await proxyFetch(purge(null, TOKEN, 'GET'), env);
+    const wrong = await proxyFetch(purge({ urls: ['https://proxy.test/a'] }, 'guess'), env);
+
+    expect(hidden.status).toBe(404);
+    expect(get.status).toBe(405);
+    expect(get.headers.get('Allow')).toBe('POST');
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toMatchObject({ code: 'unauthorized' });
+  });
+
+  it('rejects bodies without URLs or tags, and tags without zone credentials', async () => {
+    const empty = await proxyFetch(purge({ urls: [] }), env);
+    const mixed = await proxyFetch(purge({ urls: ['https://proxy.test/a', 42] }), env);
+    const tags = await proxyFetch(purge({ tags: ['products'] }), env);
+
+    expect(empty.status).toBe(400);
+    expect(mixed.status).toBe(400);
+    expect(tags.status).toBe(400);
+    expect(await tags.json()).toMatchObject({ code: 'bad-request', detail: 'Tag purge requires CF_ZONE_ID and CF_API_TOKEN' });
+  });
+
+  it('rejects a malformed URL before purging anything', async () => {
+    const deleteSpy = vi.spyOn(caches.default, 'delete');
+    const response = await proxyFetch(purge({ urls: ['https://proxy.test/a', 'not a url'] }), env);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'bad-request', detail: 'Not a valid URL: "not a url"' });
+    expect(deleteSpy).not.toHaveBeenCalled();
+  });
+
+  it('removes a cached URL from this colo', async () => {
+    const upstream = backends.add(BACKEND).always(respond(200, 'cached', { 'Cache-Control': 'max-age=60' }));
+    const url = `https://proxy.test/purge/${crypto.randomUUID()}`;
+
+    await proxyFetch(url, env);
+    expect((await proxyFetch(url, env)).headers.get('X-Cache')).toBe('HIT');
+
+    const response = await proxyFetch(purge({ urls: [url] }), env);
+    expect(await response.json()).toEqual({ purged: { urls: 1, tags: 0 }, deletedLocally: 1, global: false });
+
+    expect((await proxyFetch(url, env)).headers.get('X-Cache')).toBe('MISS');
+    expect(upstream.hits).toBe(2);
+  });
+
+  it('purges every colo through the zone API when credentials are set', async () => {
+    const zone = backends.add(ZONE_API).always(respond(200, '{"success":true}'));
+    const zoneEnv = createEnv(config, { PURGE_TOKEN: TOKEN, CF_ZONE_ID: 'zone-1', CF_API_TOKEN: 'api-token' });
+
+    const response = await proxyFetch(purge({ urls: ['https://proxy.test/a'], tags: ['products'] }), zoneEnv);
+
+    expect(await response.json()).toMatchObject({ purged: { urls: 1, tags: 1 }, global: true });
+    expect(zone.requests.map(request => request.url)).toEqual([
+      `${ZONE_API}/client/v4/zones/zone-1/purge_cache`,
+      `${ZONE_API}/client/v4/zones/zone-1/purge_cache`
+    ]);
+    expect(zone.requests[0].headers.get('Authorization')).toBe('Bearer api-token');
+    expect(JSON.parse(zone.requests[0].body).files).toHaveLength(1);
+    expect(JSON.parse(zone.requests[1].body)).toEqual({ tags: ['products'] });
+  });
+
+  it('answers 502 when the zone API fails', async () => {
+    backends.add(ZONE_API).always(respond(500, 'error'));
+    const zoneEnv = createEnv(config, { PURGE_TOKEN: TOKEN, CF_ZONE_ID: 'zone-1', CF_API_TOKEN: 'api-token' });
+
+    const response = await proxyFetch(purge({ tags: ['products'] }), zoneEnv);
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: 'upstream' });
+  });
+});
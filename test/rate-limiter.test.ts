@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ProxyConfig, RateLimitConfig } from '../src/types';
+import { DurableObjectRateLimitStore, takeToken } from '../src/services/rate-limiter';
+import { AuthGateway } from '../src/services/auth';
+import { MockBackends } from './helpers/mock-backends';
+import { createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+
+const BACKEND = 'https://limited.backend.test';
+const PER_KEY: RateLimitConfig = { key: { source: 'header', name: 'X-API-Key' }, limit: 2, window: 60000 };
+
+describe('takeToken', () => {
+  const rule: RateLimitConfig = { key: { source: 'ip' }, limit: 10, window: 10000, burst: 2 };
+
+  it('starts full and denies once the burst is spent', () => {
+    const first = takeToken(rule, undefined, 0);
+    const second = takeToken(rule, first.state, 0);
+    const third = takeToken(rule, second.state, 0);
+
+    expect([first, second, third].map(result => result.decision.allowed)).toEqual([true, true, false]);
+    expect(third.decision.retryAfter).toBe(1);
+  });
+
+  it('refills at limit per window', () => {
+    const empty = takeToken(rule, { tokens: 0, updatedAt: 0 }, 0);
+    expect(empty.decision.allowed).toBe(false);
+    expect(takeToken(rule, empty.state, 1000).decision.allowed).toBe(true);
+  });
+});
+
+describe('DurableObjectRateLimitStore', () => {
+  it('names bucket objects by a hash of the key', async () => {
+    const take = vi.fn(async () => ({ allowed: true, limit: 1, remaining: 0, reset: 1, retryAfter: 0 }));
+    const namespace = {
+      idFromName: vi.fn((name: string) => name),
+      get: vi.fn(() => ({ take }))
+    };
+    const store = new DurableObjectRateLimitStore(namespace as unknown as DurableObjectNamespace<any>);
+
+    await store.take('per-key:caller:api-key:alice', PER_KEY);
+
+    const name = namespace.idFromName.mock.calls[0][0];
+    expect(name).toMatch(/^[\w-]{43}$/);
+    expect(name).not.toContain('alice');
+  });
+});
+
+describe('rate limiting', () => {
+  let backends: MockBackends;
+  const config = (overrides: Partial<ProxyConfig> = {}): Partial<ProxyConfig> => ({
+    backends: [{ url: BACKEND, region: 'us-west', weight: 1 }],
+    retryAttempts: 1,
+    enableCaching: false,
+    ...overrides
+  });
+  const from = (ip: string, headers: Record<string, string> = {}) => {
+    return new Request('https://proxy.test/', { headers: { 'CF-Connecting-IP': ip, ...headers } });
+  };
+
+  beforeEach(() => {
+    resetWorkerState();
+    AuthGateway.reset();
+    backends = new MockBackends().install();
+    backends.add(BACKEND);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('throttles per client IP with Retry-After and RateLimit headers', async () => {
+    const env = createEnv(config({ rateLimits: [{ key: { source: 'ip' }, limit: 1, window: 60000 }] }));
+
+    const allowed = await proxyFetch(from('192.0.2.1'), env);
+    const throttled = await proxyFetch(from('192.0.2.1'), env);
+    const other = await proxyFetch(from('192.0.2.2'), env);
+
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(throttled.status).toBe(429);
+    expect(throttled.headers.get('Retry-After')).toBe('60');
+    expect(other.status).toBe(200);
+  });
+
+  it('does not give made-up API keys their own buckets', async () => {
+    const env = createEnv(config({ rateLimits: [PER_KEY] }));
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await proxyFetch(from('192.0.2.1', { 'X-API-Key': crypto.randomUUID() }), env)).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it('counts verified callers separately and failed logins against the client IP', async () => {
+    const env = createEnv(
+      config({ auth: { apiKeys: {} }, rateLimits: [PER_KEY] }),
+      { API_KEYS: 'alice:key-alice,bob:key-bob' }
+    );
+    const send = async (key: string) => (await proxyFetch(from('192.0.2.1', { 'X-API-Key': key }), env)).status;
+
+    expect([await send('key-alice'), await send('key-alice'), await send('key-alice')]).toEqual([200, 200, 429]);
+    expect(await send('key-bob')).toBe(200);
+    expect([await send('wrong-1'), await send('wrong-2'), await send('wrong-3')]).toEqual([401, 401, 429]);
+  });
+});
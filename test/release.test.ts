@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Env, ProxyConfig, ReleaseConfig } from '../src/types';
+import { ConfigStore } from '../src/config/config-store';
+import { LocalCoordinator } from '../src/services/coordinator';
+import { MockBackends, drop, respond } from './helpers/mock-backends';
+import { createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+
+const STABLE = 'https://stable.backend.test';
+const CANARY = 'https://canary.backend.test';
+const SHADOW = 'https://shadow.backend.test';
+
+const withRelease = (release: ReleaseConfig): Partial<ProxyConfig> => ({
+  backends: [{ url: STABLE, region: 'us-west', weight: 1 }],
+  pools: {
+    canary: { backends: [{ url: CANARY, region: 'us-west', weight: 1 }] },
+    shadow: { backends: [{ url: SHADOW, region: 'us-west', weight: 1 }] }
+  },
+  routes: [{ name: 'api', match: { pathPrefix: '/api' }, pool: 'default', release }],
+  retryAttempts: 1,
+  enableCaching: false,
+  exposeBackendHeaders: true
+});
+
+const fromClient = (ip: string, headers: Record<string, string> = {}, init: RequestInit = {}) => {
+  return new Request('https://proxy.test/api/items', { ...init, headers: { 'CF-Connecting-IP': ip, ...headers } });
+};
+
+describe('release routing', () => {
+  let backends: MockBackends;
+
+  beforeEach(() => {
+    resetWorkerState();
+    backends = new MockBackends().install();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps each client on the same split and sends the split to its pool', async () => {
+    const stable = backends.add(STABLE);
+    const canary = backends.add(CANARY);
+    const env = createEnv(withRelease({ splits: [{ name: 'canary', pool: 'canary', percent: 50 }] }));
+    const seen: string[] = [];
+
+    for (let i = 1; i <= 20; i++) {
+      const ip = `198.51.100.${i}`;
+      const first = (await proxyFetch(fromClient(ip), env)).headers.get('X-Backend-Split')!;
+      const second = (await proxyFetch(fromClient(ip), env)).headers.get('X-Backend-Split')!;
+      expect(second).toBe(first);
+      seen.push(first);
+    }
+
+    const canaryClients = seen.filter(split => split === 'canary').length;
+    expect(canaryClients).toBeGreaterThan(0);
+    expect(canaryClients).toBeLessThan(20);
+    expect(canary.hits).toBe(canaryClients * 2);
+    expect(stable.hits).toBe((20 - canaryClients) * 2);
+  });
+
+  it('honours a forced version from the header or the cookie', async () => {
+    const stable = backends.add(STABLE);
+    const canary = backends.add(CANARY);
+    const release = (percent: number): ReleaseConfig => ({
+      splits: [{ name: 'canary', pool: 'canary', percent }],
+      force: { header: 'X-Version', cookie: 'version' }
+    });
+
+    const forcedIn = await proxyFetch(fromClient('198.51.100.1', { 'X-Version': 'Canary' }), createEnv(withRelease(release(0))));
+    // The config is cached per isolate, so the second document needs a fresh load
+    ConfigStore.reset();
+    const forcedOut = await proxyFetch(fromClient('198.51.100.1', { Cookie: 'a=1; version=stable' }), createEnv(withRelease(release(100))));
+
+    expect(forcedIn.headers.get('X-Backend-Split')).toBe('canary');
+    expect(forcedOut.headers.get('X-Backend-Split')).toBe('stable');
+    expect(canary.hits).toBe(1);
+    expect(stable.hits).toBe(1);
+  });
+
+  describe('mirroring', () => {
+    const mirrored = (methods?: string[]) => createEnv(withRelease({ mirror: { pool: 'shadow', percent: 100, methods } }));
+
+    it('copies the request to the shadow pool and ignores its answer', async () => {
+      backends.add(STABLE).always(respond(200, 'primary'));
+      const shadow = backends.add(SHADOW).always(respond(500, 'shadow failure'));
+
+      const response = await proxyFetch(fromClient('198.51.100.1', { 'X-Trace': 'abc' }), mirrored());
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('primary');
+      expect(shadow.hits).toBe(1);
+      expect(new URL(shadow.requests[0].url).pathname).toBe('/api/items');
+      expect(shadow.requests[0].headers.get('X-Trace')).toBe('abc');
+      expect(shadow.requests[0].headers.get('X-Proxy-Shadow')).toBe('1');
+    });
+
+    it('never surfaces a failed mirror to the client', async () => {
+      backends.add(STABLE).always(respond(200, 'primary'));
+      backends.add(SHADOW).always(drop());
+
+      const response = await proxyFetch(fromClient('198.51.100.1'), mirrored());
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('primary');
+    });
+
+    it('only mirrors the configured methods', async () => {
+      backends.add(STABLE);
+      const shadow = backends.add(SHADOW);
+
+      await proxyFetch(fromClient('198.51.100.1', {}, { method: 'POST', body: 'x' }), mirrored());
+      ConfigStore.reset();
+      await proxyFetch(fromClient('198.51.100.1', {}, { method: 'POST', body: 'x' }), mirrored(['POST']));
+
+      expect(shadow.hits).toBe(1);
+      expect(shadow.requests[0].body).toBe('x');
+    });
+  });
+
+  it('records metrics per route and split', async () => {
+    backends.add(STABLE);
+    backends.add(CANARY).always(respond(500));
+    const env: Env = createEnv(withRelease({
+      splits: [{ name: 'canary', pool: 'canary', percent: 0 }],
+      force: { header: 'X-Version' }
+    }));
+
+    await proxyFetch(fromClient('198.51.100.1'), env);
+    await proxyFetch(fromClient('198.51.100.1'), env);
+    await proxyFetch(fromClient('198.51.100.1', { 'X-Version': 'canary' }), env);
+
+    const { splits } = await new LocalCoordinator(await ConfigStore.load(env)).getSnapshot();
+    expect(splits['api/stable']).toMatchObject({ route: 'api', split: 'stable', requests: 2, errors: 0 });
+    expect(splits['api/canary']).toMatchObject({ route: 'api', split: 'canary', requests: 1, errors: 1 });
+    expect(splits['api/canary'].statusClasses).toEqual({ '5xx': 1 });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import type { ProxyConfig, RequestFilterConfig } from '../src/types';
+import { DEFAULT_MAX_BODY_SIZE, RequestFilter } from '../src/services/request-filter';
+import { limitRequestBody } from '../src/utils/body';
+import { createRequestInfo } from './helpers/fixtures';
+
+const check = (config: RequestFilterConfig, url = 'https://proxy.test/', init: RequestInit = {}, info = {}) => {
+  const request = new Request(url, init);
+  return new RequestFilter(config).check(request, createRequestInfo({ headers: request.headers, ...info }));
+};
+
+describe('RequestFilter', () => {
+  it('lets everything through by default', () => {
+    expect(check({})).toBeNull();
+    expect(new RequestFilter().maxBodySize).toBe(DEFAULT_MAX_BODY_SIZE);
+  });
+
+  it('rejects methods outside the allowlist, case-insensitively', () => {
+    expect(check({ methods: ['get', 'HEAD'] })).toBeNull();
+    expect(check({ methods: ['GET'] }, 'https://proxy.test/', { method: 'DELETE' })).toMatchObject({
+      kind: 'method-not-allowed',
+      status: 405
+    });
+    expect(new RequestFilter({ methods: ['get'] }).allowedMethods).toEqual(['GET']);
+  });
+
+  describe('paths', () => {
+    const strict = { blockTraversal: true, blockEncodedSlashes: true };
+
+    it('passes paths on untouched unless a path rule is enabled', () => {
+      expect(check({}, 'https://proxy.test/files/..%2fetc/passwd')).toBeNull();
+      expect(check({}, 'https://proxy.test/files/%E0%A4%A')).toBeNull();
+    });
+
+    it.each([
+      ['/files/..%2fetc/passwd', 'Encoded slashes'],
+      ['/files/..%5cwindows', 'Encoded slashes'],
+      ['/files/%252e%252e%252fetc', 'Encoded slashes'],
+      ['/files/%25%32%65%25%32%65/etc', 'Path traversal'],
+      ['/files/%00.txt', 'NUL'],
+      ['/files/%E0%A4%A', 'Malformed']
+    ])('blocks %s', (path, reason) => {
+      const error = check(strict, `https://proxy.test${path}`);
+      expect(error).toMatchObject({ kind: 'bad-request', status: 400 });
+      expect(error!.message).toContain(reason);
+    });
+
+    it('allows ordinary encoded characters', () => {
+      expect(check(strict, 'https://proxy.test/search/caf%C3%A9%20au%20lait')).toBeNull();
+      expect(check(strict, 'https://proxy.test/files/100%25')).toBeNull();
+    });
+
+    it('allows encoded slashes with only blockTraversal, but still blocks traversal through them', () => {
+      expect(check({ blockTraversal: true }, 'https://proxy.test/packages/%40scope%2Fname')).toBeNull();
+      expect(check({ blockTraversal: true }, 'https://proxy.test/a/..%2f..%2fsecret')).toMatchObject({
+        message: 'Path traversal is not allowed'
+      });
+      expect(check({ blockEncodedSlashes: true }, 'https://proxy.test/a/..%2fsecret')).toMatchObject({
+        message: 'Encoded slashes are not allowed in the path'
+      });
+      expect(check({ blockEncodedSlashes: true }, 'https://proxy.test/a/%25%32%65%25%32%65/secret')).toBeNull();
+    });
+  });
+
+  it('limits header count and total size', () => {
+    const headers = { 'X-One': '1', 'X-Two': '2', 'X-Three': '3' };
+    expect(check({ maxHeaderCount: 3 }, 'https://proxy.test/', { headers })).toBeNull();
+    expect(check({ maxHeaderCount: 2 }, 'https://proxy.test/', { headers })).toMatchObject({
+      kind: 'headers-too-large',
+      status: 431
+    });
+    expect(check({ maxHeaderSize: 64 }, 'https://proxy.test/', { headers: { Cookie: 'x'.repeat(100) } })).toMatchObject({
+      kind: 'headers-too-large'
+    });
+  });
+
+  describe('access lists', () => {
+    it('matches client addresses against addresses and CIDR ranges', () => {
+      const ips = { allow: ['10.0.0.0/8', '2001:db8::/32'], deny: ['10.0.0.66'] };
+      expect(check({ ips }, undefined, {}, { clientIP: '10.1.2.3' })).toBeNull();
+      expect(check({ ips }, undefined, {}, { clientIP: '2001:db8::1' })).toBeNull();
+      expect(check({ ips }, undefined, {}, { clientIP: '10.0.0.66' })).toMatchObject({ kind: 'forbidden', status: 403 });
+      expect(check({ ips }, undefined, {}, { clientIP: '192.0.2.1' })).toMatchObject({ kind: 'forbidden' });
+      expect(check({ ips }, undefined, {}, { clientIP: 'unknown' })).toMatchObject({ kind: 'forbidden' });
+    });
+
+    it('blocks denied countries and, with an allowlist, everything else', () => {
+      expect(check({ countries: { deny: ['kp'] } }, undefined, {}, { country: 'KP' })).toMatchObject({ kind: 'forbidden' });
+      expect(check({ countries: { deny: ['KP'] } }, undefined, {}, { country: 'DE' })).toBeNull();
+      expect(check({ countries: { allow: ['DE', 'FR'] } }, undefined, {}, { country: 'US' })).toMatchObject({ kind: 'forbidden' });
+    });
+
+    it('matches user agents as case-insensitive patterns', () => {
+      const userAgents = { deny: ['^curl/', 'python-requests'] };
+      const as = (userAgent: string) => check({ userAgents }, 'https://proxy.test/', {}, { userAgent });
+      expect(as('CURL/8.4.0')).toMatchObject({ kind: 'forbidden' });
+      expect(as('python-requests/2.31')).toMatchObject({ kind: 'forbidden' });
+      expect(as('Mozilla/5.0')).toBeNull();
+    });
+  });
+
+  it('rejects a declared Content-Length over the limit', () => {
+    const init = { method: 'POST', body: 'x', headers: { 'Content-Length': '2048' } };
+    expect(check({ maxBodySize: 1024 }, 'https://proxy.test/', init)).toMatchObject({ kind: 'too-large', status: 413 });
+  });
+
+  describe('forRoute', () => {
+    const config = {
+      backends: [],
+      filter: { methods: ['GET'], maxBodySize: 1024, ips: { allow: ['10.0.0.0/8'], deny: ['10.0.0.66'] } }
+    } as unknown as ProxyConfig;
+
+    it('overrides global settings per route but keeps the global deny list', () => {
+      const filter = RequestFilter.forRoute(config, {
+        match: { pathPrefix: '/upload' },
+        pool: 'default',
+        filter: { methods: ['POST'], ips: { allow: ['0.0.0.0/0'], deny: ['192.0.2.1'] } }
+      });
+
+      expect(filter.allowedMethods).toEqual(['POST']);
+      expect(filter.maxBodySize).toBe(1024);
+      const request = new Request('https://proxy.test/upload', { method: 'POST' });
+      const as = (clientIP: string) => filter.check(request, createRequestInfo({ clientIP }));
+      expect(as('198.51.100.7')).toBeNull();
+      expect(as('192.0.2.1')).toMatchObject({ kind: 'forbidden' });
+      expect(as('10.0.0.66')).toMatchObject({ kind: 'forbidden' });
+    });
+  });
+});
+
+describe('limitRequestBody', () => {
+  const chunked = (...chunks: string[]) => new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+      controller.close();
+    }
+  });
+
+  it('passes bodies within the limit through unchanged', async () => {
+    let exceeded = false;
+    const request = new Request('https://proxy.test/', { method: 'POST', body: chunked('abc', 'def'), duplex: 'half' } as RequestInit);
+    const limited = limitRequestBody(request, 6, () => { exceeded = true; });
+
+    expect(await limited.text()).toBe('abcdef');
+    expect(exceeded).toBe(false);
+  });
+
+  it('fails the stream once it passes the limit', async () => {
+    let exceeded = false;
+    const request = new Request('https://proxy.test/', { method: 'POST', body: chunked('abc', 'def', 'g'), duplex: 'half' } as RequestInit);
+    const limited = limitRequestBody(request, 6, () => { exceeded = true; });
+
+    const reader = limited.body!.getReader();
+    await expect((async () => {
+      while (!(await reader.read()).done);
+    })()).rejects.toMatchObject({ kind: 'too-large' });
+    expect(exceeded).toBe(true);
+  });
+
+  it('leaves requests without a body alone', () => {
+    const request = new Request('https://proxy.test/');
+    expect(limitRequestBody(request, 0, () => {})).toBe(request);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import type { RouteConfig } from '../src/types';
+import { ConfigLoader } from '../src/config/backends';
+import { DEFAULT_POOL, Router } from '../src/services/router';
+
+const BACKEND = { url: 'https://default.backend.test', region: 'us-west', weight: 1 };
+
+const routerFor = (routes: RouteConfig[]) => new Router(ConfigLoader.fromDocument({
+  backends: [BACKEND],
+  pools: { api: { backends: [{ url: 'https://api.backend.test', region: 'us-west', weight: 1 }] } },
+  routes
+}, { ENVIRONMENT: 'test' }));
+
+const resolve = (router: Router, path: string) => router.resolve(new Request(`https://proxy.test${path}`));
+
+describe('Router', () => {
+  it('matches path prefixes on segment boundaries', () => {
+    const router = routerFor([{ match: { pathPrefix: '/api' }, pool: 'api' }]);
+
+    expect(resolve(router, '/api').poolName).toBe('api');
+    expect(resolve(router, '/api/users').poolName).toBe('api');
+    expect(resolve(router, '/apiv2').poolName).toBe(DEFAULT_POOL);
+    expect(resolve(router, '/api-docs/index.html').poolName).toBe(DEFAULT_POOL);
+  });
+
+  it('treats a prefix ending in a slash as a directory', () => {
+    const router = routerFor([{ match: { pathPrefix: '/static/' }, pool: 'api' }]);
+
+    expect(resolve(router, '/static/app.js').poolName).toBe('api');
+    expect(resolve(router, '/static').poolName).toBe(DEFAULT_POOL);
+    expect(resolve(router, '/staticfiles/app.js').poolName).toBe(DEFAULT_POOL);
+  });
+
+  it('strips the prefix and keeps a leading slash', () => {
+    const router = routerFor([{ match: { pathPrefix: '/api' }, pool: 'api', stripPrefix: true }]);
+
+    expect(resolve(router, '/api/users/1').upstreamPath).toBe('/users/1');
+    expect(resolve(router, '/api').upstreamPath).toBe('/');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import type { ProxyConfig } from '../src/types';
+import { RoundRobinStrategy } from '../src/services/strategies';
+import { MockBackends, respond } from './helpers/mock-backends';
+import { FAST_RETRY, createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+
+const US_A = 'https://us-a.backend.test';
+const US_B = 'https://us-b.backend.test';
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const TRACEPARENT = `00-${TRACE_ID}-00f067aa0ba902b7-01`;
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-01$/;
+
+const config: Partial<ProxyConfig> = {
+  backends: [
+    { url: US_A, region: 'us-west', weight: 1 },
+    { url: US_B, region: 'us-west', weight: 1 }
+  ],
+  loadBalancing: { strategy: 'round-robin' },
+  routes: [{ name: 'api', match: { pathPrefix: '/api' }, pool: 'default' }],
+  retryAttempts: 1,
+  retry: FAST_RETRY,
+  enableCaching: false
+};
+
+describe('tracing and access logs', () => {
+  let backends: MockBackends;
+  let log: MockInstance<typeof console.log>;
+
+  // Only the access log writes JSON lines to console.log
+  const accessLogLines = () => log.mock.calls
+    .map(([line]) => String(line))
+    .filter(line => line.startsWith('{'))
+    .map(line => JSON.parse(line));
+
+  beforeEach(() => {
+    resetWorkerState();
+    RoundRobinStrategy.reset();
+    backends = new MockBackends().install();
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('passes the caller\'s request ID and trace to the backend and back', async () => {
+    const upstream = backends.add(US_A);
+    const request = new Request('https://proxy.test/api/users', {
+      headers: { 'X-Request-ID': 'req-42', traceparent: TRACEPARENT, tracestate: 'vendor=1' }
+    });
+
+    const response = await proxyFetch(request, createEnv(config));
+    const sent = upstream.requests[0].headers;
+
+    expect(sent.get('X-Request-ID')).toBe('req-42');
+    expect(sent.get('tracestate')).toBe('vendor=1');
+    const [, traceId, spanId] = sent.get('traceparent')!.match(TRACEPARENT_PATTERN)!;
+    expect(traceId).toBe(TRACE_ID);
+    expect(spanId).not.toBe('00f067aa0ba902b7');
+
+    expect(response.headers.get('X-Request-ID')).toBe('req-42');
+    expect(response.headers.get('traceparent')).toBe(sent.get('traceparent'));
+  });
+
+  it('starts a new request ID and trace when none or an invalid one arrives', async () => {
+    const upstream = backends.add(US_A);
+    const env = createEnv({ ...config, backends: [config.backends![0]] });
+
+    const fresh = await proxyFetch('https://proxy.test/api/users', env);
+    const invalid = await proxyFetch(new Request('https://proxy.test/api/users', {
+      headers: { 'X-Request-ID': 'not allowed', traceparent: `00-${'0'.repeat(32)}-00f067aa0ba902b7-01` }
+    }), env);
+
+    for (const [i, response] of [fresh, invalid].entries()) {
+      const sent = upstream.requests[i].headers;
+      expect(sent.get('X-Request-ID')).toBeTruthy();
+      expect(sent.get('X-Request-ID')).not.toBe('not allowed');
+      expect(sent.get('traceparent')).toMatch(TRACEPARENT_PATTERN);
+      expect(response.headers.get('X-Request-ID')).toBe(sent.get('X-Request-ID'));
+      expect(response.headers.get('traceparent')).toBe(sent.get('traceparent'));
+    }
+    expect(upstream.requests[0].headers.get('X-Request-ID')).not.toBe(upstream.requests[1].headers.get('X-Request-ID'));
+  });
+
+  it('writes one JSON access log line with the documented fields', async () => {
+    backends.add(US_A).always(respond(500));
+    backends.add(US_B).always(respond(200));
+    const request = new Request('https://proxy.test/api/users?page=2', {
+      headers: { 'X-Request-ID': 'req-42', traceparent: TRACEPARENT, 'CF-IPCountry': 'DE' }
+    });
+
+    await proxyFetch(request, createEnv(config));
+
+    const lines = accessLogLines();
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({
+      requestId: 'req-42',
+      traceId: TRACE_ID,
+      method: 'GET',
+      path: '/api/users',
+      country: 'DE',
+      route: 'api',
+      backend: US_B,
+      region: 'us-west',
+      attempts: 2,
+      fallbacks: 1,
+      hedges: 0,
+      upstreamStatus: 200,
+      status: 200
+    });
+    expect(new Date(lines[0].timestamp).toISOString()).toBe(lines[0].timestamp);
+    expect(lines[0].upstreamLatency).toBeGreaterThanOrEqual(0);
+    expect(lines[0].duration).toBeGreaterThanOrEqual(0);
+  });
+});
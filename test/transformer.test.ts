@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { RouteConfig, TransformConfig } from '../src/types';
+import { Transformer } from '../src/services/transformer';
+import { MockBackends, respond } from './helpers/mock-backends';
+import { createEnv, proxyFetch, resetWorkerState } from './helpers/worker';
+import { backend } from './helpers/fixtures';
+
+const BACKEND = backend('https://api-us.internal', 'us-west');
+const CLIENT = new Request('https://www.example.com/app/login', { headers: { 'CF-Connecting-IP': '198.51.100.7' } });
+
+const text = (body: string, headers: Record<string, string> = {}) => new Response(body, {
+  headers: { 'Content-Type': 'text/html; charset=utf-8', 'Content-Length': String(body.length), ...headers }
+});
+
+const transform = (rules: TransformConfig[], response: Response, route?: RouteConfig) => {
+  const variables = Transformer.variables(CLIENT, BACKEND, undefined, route?.name);
+  return new Transformer(rules).applyResponse(response, CLIENT, BACKEND, route, variables);
+};
+
+describe('Transformer', () => {
+  it('removes, sets and adds headers with template variables, global rules first', () => {
+    const headers = new Headers({ 'X-Powered-By': 'php', 'X-Tag': 'a' });
+    const transformer = new Transformer([
+      { request: { headers: { remove: ['X-Powered-By'], set: { 'X-Client': '{clientIP}' } } } },
+      undefined,
+      { request: { headers: { set: { 'X-Client': '{clientIP}@{backend.region}' }, add: { 'X-Tag': '{unknown}' } } } }
+    ]);
+
+    transformer.applyRequestHeaders(headers, Transformer.variables(CLIENT, BACKEND));
+
+    expect(headers.has('X-Powered-By')).toBe(false);
+    expect(headers.get('X-Client')).toBe('198.51.100.7@us-west');
+    expect(headers.get('X-Tag')).toBe('a, {unknown}');
+  });
+
+  it('points backend redirects at the public host and restores a stripped prefix', async () => {
+    const route: RouteConfig = { match: { pathPrefix: '/app' }, pool: 'default', stripPrefix: true };
+    const redirect = (location: string) => new Response(null, { status: 302, headers: { Location: location } });
+    const rules = [{ response: { rewriteLocation: true } }];
+
+    const own = await transform(rules, redirect('https://api-us.internal/dashboard?tab=1'), route);
+    const relative = await transform(rules, redirect('/dashboard'), route);
+    const foreign = await transform(rules, redirect('https://sso.example.net/auth'), route);
+
+    expect(own.headers.get('Location')).toBe('https://www.example.com/app/dashboard?tab=1');
+    expect(relative.headers.get('Location')).toBe('https://www.example.com/app/dashboard');
+    expect(foreign.headers.get('Location')).toBe('https://sso.example.net/auth');
+  });
+
+  it('maps cookie domains and drops the attribute for an empty replacement', async () => {
+    const headers = new Headers();
+    headers.append('Set-Cookie', 'session=1; Domain=.api-us.internal; Path=/');
+    headers.append('Set-Cookie', 'pref=2; Domain=cdn.internal; Secure');
+    headers.append('Set-Cookie', 'plain=3; Path=/');
+    const rules = [{ response: { cookieDomains: { 'api-us.internal': 'example.com', '*': '' } } }];
+
+    const response = await transform(rules, new Response('ok', { headers }));
+
+    expect(response.headers.getAll('Set-Cookie')).toEqual([
+      'session=1; Domain=example.com; Path=/',
+      'pref=2; Secure',
+      'plain=3; Path=/'
+    ]);
+  });
+
+  it('rewrites small text bodies and drops the stale length and ETag', async () => {
+    const body = 'Visit https://api-us.internal/docs or v1.2.3';
+    const rules = [{
+      response: {
+        body: [
+          { find: 'https://api-us.internal', replace: 'https://www.example.com' },
+          { find: 'v(\\d+)\\.\\d+\\.\\d+', replace: 'v$1', regex: true }
+        ]
+      }
+    }];
+
+    const response = await transform(rules, text(body, { ETag: '"abc"' }));
+
+    expect(await response.text()).toBe('Visit https://www.example.com/docs or v1');
+    expect(response.headers.has('ETag')).toBe(false);
+    expect(response.headers.has('Content-Length')).toBe(false);
+  });
+
+  it('leaves bodies of other content types and unknown lengths untouched', async () => {
+    const replacements = [{ find: 'internal', replace: 'public' }];
+    const csv = () => text('internal', { 'Content-Type': 'text/csv' });
+    const stream = new Response('internal', { headers: { 'Content-Type': 'text/plain' } });
+    stream.headers.delete('Content-Length');
+
+    expect(await (await transform([{ response: { body: replacements } }], csv())).text()).toBe('internal');
+    expect(await (await transform([{ response: { body: replacements } }], stream)).text()).toBe('internal');
+    expect(await (await transform([{ response: { body: replacements, bodyContentTypes: ['text/csv'] } }], csv())).text())
+      .toBe('public');
+  });
+});
+
+describe('transforms through the worker', () => {
+  let backends: MockBackends;
+
+  beforeEach(() => {
+    resetWorkerState();
+    backends = new MockBackends().install();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backends.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('applies global, route and backend rules to the upstream request and the response', async () => {
+    const upstream = backends.add(BACKEND.url).always(respond(200, 'ok', { 'X-Powered-By': 'php' }));
+    const env = createEnv({
+      backends: [{ ...BACKEND, transform: { request: { headers: { set: { 'X-Backend': '{backend.host}' } } } } }],
+      enableCaching: false,
+      transform: { request: { headers: { set: { 'X-Request-Route': '{route}' } } } },
+      routes: [{
+        name: 'app',
+        match: { pathPrefix: '/app' },
+        pool: 'default',
+        transform: { response: { headers: { remove: ['X-Powered-By'], set: { 'X-Served-By': '{backend.region}' } } } }
+      }]
+    });
+
+    const response = await proxyFetch(CLIENT.clone(), env);
+
+    expect(upstream.requests[0].headers.get('X-Request-Route')).toBe('app');
+    expect(upstream.requests[0].headers.get('X-Backend')).toBe('api-us.internal');
+    expect(response.headers.has('X-Powered-By')).toBe(false);
+    expect(response.headers.get('X-Served-By')).toBe('us-west');
+  });
+
+  it('hands backend redirects to the client with Location and cookies rewritten', async () => {
+    const upstream = backends.add(BACKEND.url).next(respond(302, '', {
+      Location: 'https://api-us.internal/dashboard',
+      'Set-Cookie': 'session=1; Domain=api-us.internal; Path=/'
+    }));
+    const env = createEnv({
+      backends: [BACKEND],
+      enableCaching: false,
+      routes: [{
+        match: { pathPrefix: '/app' },
+        pool: 'default',
+        stripPrefix: true,
+        transform: { response: { rewriteLocation: true, cookieDomains: { 'api-us.internal': 'example.com' } } }
+      }]
+    });
+
+    const response = await proxyFetch(CLIENT.clone(), env);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('https://www.example.com/app/dashboard');
+    expect(response.headers.get('Set-Cookie')).toBe('session=1; Domain=example.com; Path=/');
+    expect(upstream.hits).toBe(1);
+  });
+});
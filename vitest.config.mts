@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config';
+import { cloudflareTest } from '@cloudflare/vitest-pool-workers';
+
+// Tests run inside workerd; backends are mocked in-process so the suite works offline
+export default defineConfig({
+  plugins: [
+    cloudflareTest({
+      miniflare: {
+        compatibilityDate: '2024-12-01',
+        compatibilityFlags: ['nodejs_compat'],
+        bindings: { ENVIRONMENT: 'test' }
+      }
+    })
+  ],
+  test: {
+    include: ['test/**/*.test.ts']
+  }
+});